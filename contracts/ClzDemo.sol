@@ -4,7 +4,7 @@ pragma solidity ^0.8.28;
 /**
  * @title ClzDemo
  * @notice Demonstrates the CLZ (Count Leading Zeros) opcode (EIP-7939)
- * @dev CLZ opcode (0x5c) counts leading zero bits in a 256-bit value
+ * @dev CLZ opcode (0x1e) counts leading zero bits in a 256-bit value
  *      Returns 256 for input 0
  */
 contract ClzDemo {
@@ -6,7 +6,7 @@ pragma solidity ^0.8.28;
  * @notice Thin wrapper around the secp256r1 precompile (EIP-7951)
  * @dev Precompile address: 0x100
  *      Input: 64-byte public key (32-byte x, 32-byte y) + 32-byte message hash + 64-byte signature (32-byte r, 32-byte s)
- *      Output: 1 for valid signature, 0 for invalid
+ *      Output: 32-byte word 1 for a valid signature, empty for an invalid one
  */
 contract Secp256r1Verifier {
     /// @notice Address of the secp256r1 precompile (EIP-7951)
@@ -34,14 +34,9 @@ contract Secp256r1Verifier {
         // Call precompile
         (bool success, bytes memory output) = SECP256R1_PRECOMPILE.staticcall(input);
         
-        // Precompile returns 1 for valid, 0 for invalid
+        // Precompile returns a 32-byte 1 for valid, empty output for invalid
         // If call fails, signature is invalid
-        if (!success || output.length == 0) {
-            return false;
-        }
-
-        // Check if first byte is 1 (valid) or 0 (invalid)
-        isValid = output[0] == 0x01;
+        isValid = success && output.length == 32 && abi.decode(output, (uint256)) == 1;
     }
 
     /**
@@ -53,12 +48,8 @@ contract Secp256r1Verifier {
         require(input.length == 160, "Secp256r1Verifier: invalid input length");
         
         (bool success, bytes memory output) = SECP256R1_PRECOMPILE.staticcall(input);
-        
-        if (!success || output.length == 0) {
-            return false;
-        }
 
-        isValid = output[0] == 0x01;
+        isValid = success && output.length == 32 && abi.decode(output, (uint256)) == 1;
     }
 
     /**
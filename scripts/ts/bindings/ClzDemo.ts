@@ -0,0 +1,52 @@
+/**
+ * @file ClzDemo.ts
+ * @notice Typed binding for ClzDemo
+ * @dev Generated by scripts/ts/gen-bindings.ts from out/ClzDemo.sol/ClzDemo.json; do not edit.
+ *      Run `npm run bindings` after changing the contract.
+ */
+
+import type { ethers } from "ethers";
+import { deployContract } from "../lib/artifacts.js";
+import { deployOrReuse, type DeploymentOptions } from "../lib/deployments.js";
+import { attachTyped, type TypedContract } from "../lib/typed-contract.js";
+
+export const CLZ_DEMO_ABI = [
+    "function clzBatch(uint256[] values) pure returns (uint256[] counts)",
+    "function clzWithValidation(uint256 value) pure returns (uint256 count, bool isValid)",
+    "function countLeadingZeros(uint256 value) pure returns (uint256 count)",
+] as const;
+
+export type ClzDemoFunctions = {
+    clzBatch: {
+        inputs: [values: ethers.BigNumberish[]];
+        outputs: bigint[];
+        mutability: "pure";
+    };
+    clzWithValidation: {
+        inputs: [value: ethers.BigNumberish];
+        outputs: [count: bigint, isValid: boolean];
+        mutability: "pure";
+    };
+    countLeadingZeros: {
+        inputs: [value: ethers.BigNumberish];
+        outputs: bigint;
+        mutability: "pure";
+    };
+};
+
+export type ClzDemoEvents = {};
+
+export type ClzDemo = TypedContract<ClzDemoFunctions, ClzDemoEvents>;
+
+export const ClzDemoFactory = {
+    contractName: "ClzDemo",
+    abi: CLZ_DEMO_ABI,
+    /** Deploy from the Foundry artifact in out/ */
+    deploy: (runner: ethers.Signer) => deployContract<ClzDemo>("ClzDemo", runner),
+    /** Reuse the deployment recorded in deployments/<chainId>.json, or deploy and record it */
+    deployOrReuse: (runner: ethers.Signer, options?: DeploymentOptions) =>
+        deployOrReuse<ClzDemo>("ClzDemo", runner, options),
+    /** Typed handle on an existing deployment; needs no artifact */
+    attach: (address: string, runner: ethers.ContractRunner | null = null) =>
+        attachTyped<ClzDemo>(address, CLZ_DEMO_ABI, runner),
+};
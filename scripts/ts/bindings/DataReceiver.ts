@@ -0,0 +1,55 @@
+/**
+ * @file DataReceiver.ts
+ * @notice Typed binding for DataReceiver
+ * @dev Generated by scripts/ts/gen-bindings.ts from out/DataReceiver.sol/DataReceiver.json; do not edit.
+ *      Run `npm run bindings` after changing the contract.
+ */
+
+import type { ethers } from "ethers";
+import { deployContract } from "../lib/artifacts.js";
+import { deployOrReuse, type DeploymentOptions } from "../lib/deployments.js";
+import { attachTyped, type TypedContract } from "../lib/typed-contract.js";
+
+export const DATA_RECEIVER_ABI = [
+    "function receiveData(bytes data)",
+    "function receiveDataAndReturnLength(bytes data) pure returns (uint256 length)",
+    "function receiveDataMinimal(bytes data)",
+    "event DataReceived(bytes data, uint256 size)",
+] as const;
+
+export type DataReceiverFunctions = {
+    receiveData: {
+        inputs: [data: ethers.BytesLike];
+        outputs: void;
+        mutability: "nonpayable";
+    };
+    receiveDataAndReturnLength: {
+        inputs: [data: ethers.BytesLike];
+        outputs: bigint;
+        mutability: "pure";
+    };
+    receiveDataMinimal: {
+        inputs: [data: ethers.BytesLike];
+        outputs: void;
+        mutability: "nonpayable";
+    };
+};
+
+export type DataReceiverEvents = {
+    DataReceived: { data: string; size: bigint };
+};
+
+export type DataReceiver = TypedContract<DataReceiverFunctions, DataReceiverEvents>;
+
+export const DataReceiverFactory = {
+    contractName: "DataReceiver",
+    abi: DATA_RECEIVER_ABI,
+    /** Deploy from the Foundry artifact in out/ */
+    deploy: (runner: ethers.Signer) => deployContract<DataReceiver>("DataReceiver", runner),
+    /** Reuse the deployment recorded in deployments/<chainId>.json, or deploy and record it */
+    deployOrReuse: (runner: ethers.Signer, options?: DeploymentOptions) =>
+        deployOrReuse<DataReceiver>("DataReceiver", runner, options),
+    /** Typed handle on an existing deployment; needs no artifact */
+    attach: (address: string, runner: ethers.ContractRunner | null = null) =>
+        attachTyped<DataReceiver>(address, DATA_RECEIVER_ABI, runner),
+};
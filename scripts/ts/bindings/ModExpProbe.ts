@@ -0,0 +1,64 @@
+/**
+ * @file ModExpProbe.ts
+ * @notice Typed binding for ModExpProbe
+ * @dev Generated by scripts/ts/gen-bindings.ts from out/ModExpProbe.sol/ModExpProbe.json; do not edit.
+ *      Run `npm run bindings` after changing the contract.
+ */
+
+import type { ethers } from "ethers";
+import { deployContract } from "../lib/artifacts.js";
+import { deployOrReuse, type DeploymentOptions } from "../lib/deployments.js";
+import { attachTyped, type TypedContract } from "../lib/typed-contract.js";
+
+export const MOD_EXP_PROBE_ABI = [
+    "function MODEXP_PRECOMPILE() view returns (address)",
+    "function modExp(bytes base, bytes exponent, bytes modulus) view returns (bytes result, bool success)",
+    "function modExpWithGasTracking(bytes base, bytes exponent, bytes modulus) view returns (bytes result, uint256 gasUsed, bool success)",
+    "function probeBounds(uint256 baseSize, uint256 exponentSize, uint256 modulusSize) view returns (bool success, uint256 gasUsed)",
+    "function testModExp(bytes base, bytes exponent, bytes modulus) view returns (bytes result, uint256 gasUsed, bool success)",
+] as const;
+
+export type ModExpProbeFunctions = {
+    MODEXP_PRECOMPILE: {
+        inputs: [];
+        outputs: string;
+        mutability: "view";
+    };
+    modExp: {
+        inputs: [base: ethers.BytesLike, exponent: ethers.BytesLike, modulus: ethers.BytesLike];
+        outputs: [result: string, success: boolean];
+        mutability: "view";
+    };
+    modExpWithGasTracking: {
+        inputs: [base: ethers.BytesLike, exponent: ethers.BytesLike, modulus: ethers.BytesLike];
+        outputs: [result: string, gasUsed: bigint, success: boolean];
+        mutability: "view";
+    };
+    probeBounds: {
+        inputs: [baseSize: ethers.BigNumberish, exponentSize: ethers.BigNumberish, modulusSize: ethers.BigNumberish];
+        outputs: [success: boolean, gasUsed: bigint];
+        mutability: "view";
+    };
+    testModExp: {
+        inputs: [base: ethers.BytesLike, exponent: ethers.BytesLike, modulus: ethers.BytesLike];
+        outputs: [result: string, gasUsed: bigint, success: boolean];
+        mutability: "view";
+    };
+};
+
+export type ModExpProbeEvents = {};
+
+export type ModExpProbe = TypedContract<ModExpProbeFunctions, ModExpProbeEvents>;
+
+export const ModExpProbeFactory = {
+    contractName: "ModExpProbe",
+    abi: MOD_EXP_PROBE_ABI,
+    /** Deploy from the Foundry artifact in out/ */
+    deploy: (runner: ethers.Signer) => deployContract<ModExpProbe>("ModExpProbe", runner),
+    /** Reuse the deployment recorded in deployments/<chainId>.json, or deploy and record it */
+    deployOrReuse: (runner: ethers.Signer, options?: DeploymentOptions) =>
+        deployOrReuse<ModExpProbe>("ModExpProbe", runner, options),
+    /** Typed handle on an existing deployment; needs no artifact */
+    attach: (address: string, runner: ethers.ContractRunner | null = null) =>
+        attachTyped<ModExpProbe>(address, MOD_EXP_PROBE_ABI, runner),
+};
@@ -0,0 +1,58 @@
+/**
+ * @file Secp256r1Verifier.ts
+ * @notice Typed binding for Secp256r1Verifier
+ * @dev Generated by scripts/ts/gen-bindings.ts from out/Secp256r1Verifier.sol/Secp256r1Verifier.json; do not edit.
+ *      Run `npm run bindings` after changing the contract.
+ */
+
+import type { ethers } from "ethers";
+import { deployContract } from "../lib/artifacts.js";
+import { deployOrReuse, type DeploymentOptions } from "../lib/deployments.js";
+import { attachTyped, type TypedContract } from "../lib/typed-contract.js";
+
+export const SECP256R1_VERIFIER_ABI = [
+    "function SECP256R1_PRECOMPILE() view returns (address)",
+    "function verify(bytes32 publicKeyX, bytes32 publicKeyY, bytes32 messageHash, bytes32 signatureR, bytes32 signatureS) view returns (bool isValid)",
+    "function verifyPacked(bytes input) view returns (bool isValid)",
+    "function verifyWithGasTracking(bytes32 publicKeyX, bytes32 publicKeyY, bytes32 messageHash, bytes32 signatureR, bytes32 signatureS) view returns (uint256 gasUsed, bool isValid)",
+] as const;
+
+export type Secp256r1VerifierFunctions = {
+    SECP256R1_PRECOMPILE: {
+        inputs: [];
+        outputs: string;
+        mutability: "view";
+    };
+    verify: {
+        inputs: [publicKeyX: ethers.BytesLike, publicKeyY: ethers.BytesLike, messageHash: ethers.BytesLike, signatureR: ethers.BytesLike, signatureS: ethers.BytesLike];
+        outputs: boolean;
+        mutability: "view";
+    };
+    verifyPacked: {
+        inputs: [input: ethers.BytesLike];
+        outputs: boolean;
+        mutability: "view";
+    };
+    verifyWithGasTracking: {
+        inputs: [publicKeyX: ethers.BytesLike, publicKeyY: ethers.BytesLike, messageHash: ethers.BytesLike, signatureR: ethers.BytesLike, signatureS: ethers.BytesLike];
+        outputs: [gasUsed: bigint, isValid: boolean];
+        mutability: "view";
+    };
+};
+
+export type Secp256r1VerifierEvents = {};
+
+export type Secp256r1Verifier = TypedContract<Secp256r1VerifierFunctions, Secp256r1VerifierEvents>;
+
+export const Secp256r1VerifierFactory = {
+    contractName: "Secp256r1Verifier",
+    abi: SECP256R1_VERIFIER_ABI,
+    /** Deploy from the Foundry artifact in out/ */
+    deploy: (runner: ethers.Signer) => deployContract<Secp256r1Verifier>("Secp256r1Verifier", runner),
+    /** Reuse the deployment recorded in deployments/<chainId>.json, or deploy and record it */
+    deployOrReuse: (runner: ethers.Signer, options?: DeploymentOptions) =>
+        deployOrReuse<Secp256r1Verifier>("Secp256r1Verifier", runner, options),
+    /** Typed handle on an existing deployment; needs no artifact */
+    attach: (address: string, runner: ethers.ContractRunner | null = null) =>
+        attachTyped<Secp256r1Verifier>(address, SECP256R1_VERIFIER_ABI, runner),
+};
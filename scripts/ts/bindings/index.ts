@@ -0,0 +1,10 @@
+/**
+ * @file index.ts
+ * @notice Typed contract bindings
+ * @dev Generated by scripts/ts/gen-bindings.ts; do not edit.
+ */
+
+export * from "./ClzDemo.js";
+export * from "./DataReceiver.js";
+export * from "./ModExpProbe.js";
+export * from "./Secp256r1Verifier.js";
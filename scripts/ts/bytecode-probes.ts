@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+/**
+ * @file bytecode-probes.ts
+ * @notice Osaka opcode and precompile probes written as raw bytecode and run through eth_call
+ * @dev Needs no Foundry artifacts, no deployment and no funded key, so it runs against read-only
+ *      RPC endpoints. Probes are assembled with lib/evm-asm.ts and run as initcode; the
+ *      state-override test runs the same CLZ probe as runtime code at a fixed address.
+ */
+
+import { ethers } from "ethers";
+import { clz } from "./lib/clz.js";
+import { assemble, callInitcode, callWithCode, push, RETURN_TOP } from "./lib/evm-asm.js";
+import { defineSuite, isEntryPoint, runMain, skip } from "./lib/harness.js";
+import { encodeModExpInput, MODEXP_ADDRESS, modExpGas, modExpOutput } from "./lib/modexp.js";
+import { generateVectors, P256VERIFY_ADDRESS, P256VERIFY_GAS, packInput } from "./lib/p256.js";
+import { staticcallWithGas } from "./lib/precompile-call.js";
+import { rpcErrorOf } from "./lib/rpc.js";
+
+/** EIP-7939 CLZ cost, the same as MUL */
+const CLZ_GAS = 5n;
+
+const CLZ_INPUTS = [0n, 1n, 2n, 0xffn, 1n << 128n, (1n << 255n) - 1n, 1n << 255n, ethers.MaxUint256];
+
+/** PUSH32 value; CLZ; return the count */
+const clzProgram = (value: bigint) => assemble([["PUSH32", value], "CLZ", ...RETURN_TOP]);
+
+/**
+ * GAS; PUSH32 value; CLZ; POP; GAS; return the difference. Besides CLZ the difference covers
+ * PUSH32 (3), POP (2) and the second GAS (2).
+ */
+const clzGasProgram = (value: bigint) =>
+    assemble(["GAS", ["PUSH32", value], "CLZ", "POP", "GAS", "SWAP1", "SUB", ...RETURN_TOP]);
+const CLZ_GAS_PROGRAM_OVERHEAD = 7n;
+
+export const bytecodeProbesSuite = defineSuite({
+    id: "bytecode-probes",
+    title: "Raw-bytecode probes",
+    eips: [7939, 7951, 7883],
+    async run(h) {
+        await h.test({ id: "clz", title: "CLZ opcode via eth_call initcode", eips: [7939] }, async () => {
+            let failures = 0;
+            for (const value of CLZ_INPUTS) {
+                const result = BigInt(await callInitcode(h.provider, clzProgram(value)));
+                const expected = BigInt(clz(value));
+                if (result === expected) {
+                    console.log(`✓ CLZ(${ethers.toBeHex(value)}) = ${result}`);
+                } else {
+                    console.error(`✗ CLZ(${ethers.toBeHex(value)}) = ${result} (expected: ${expected})`);
+                    failures++;
+                }
+            }
+            if (failures > 0) {
+                throw new Error(`${failures} CLZ probe(s) failed`);
+            }
+        });
+
+        await h.test({ id: "clz-gas", title: "CLZ gas cost", eips: [7939] }, async () => {
+            for (const value of [0n, ethers.MaxUint256]) {
+                const measured = BigInt(await callInitcode(h.provider, clzGasProgram(value))) - CLZ_GAS_PROGRAM_OVERHEAD;
+                if (measured !== CLZ_GAS) {
+                    throw new Error(`CLZ(${ethers.toBeHex(value)}) cost ${measured} gas, expected ${CLZ_GAS}`);
+                }
+                console.log(`✓ CLZ(${ethers.toBeHex(value)}) costs ${measured} gas`);
+            }
+        });
+
+        await h.test({ id: "p256verify", title: "P256VERIFY with exact gas", eips: [7951] }, async () => {
+            const [vector] = generateVectors(1);
+            const input = packInput(vector);
+            const atCost = await staticcallWithGas(h.provider, P256VERIFY_ADDRESS, input, P256VERIFY_GAS);
+            if (!atCost.success || atCost.returnData !== ethers.toBeHex(1, 32)) {
+                throw new Error(
+                    `valid signature with ${P256VERIFY_GAS} gas: success=${atCost.success}, output "${atCost.returnData}"`
+                );
+            }
+            const belowCost = await staticcallWithGas(h.provider, P256VERIFY_ADDRESS, input, P256VERIFY_GAS - 1n);
+            if (belowCost.success) {
+                throw new Error(`P256VERIFY succeeded with ${P256VERIFY_GAS - 1n} gas`);
+            }
+            console.log(`✓ Valid signature verified with exactly ${P256VERIFY_GAS} gas, not with one less`);
+        });
+
+        await h.test({ id: "modexp", title: "ModExp with exact gas", eips: [7883] }, async () => {
+            const input = { base: "0x02", exponent: "0x03", modulus: "0x05" };
+            const gas = modExpGas(input)!;
+            const calldata = encodeModExpInput(input);
+            const atCost = await staticcallWithGas(h.provider, MODEXP_ADDRESS, calldata, gas);
+            if (!atCost.success || atCost.returnData !== modExpOutput(input)) {
+                throw new Error(`2^3 mod 5 with ${gas} gas: success=${atCost.success}, output "${atCost.returnData}"`);
+            }
+            const belowCost = await staticcallWithGas(h.provider, MODEXP_ADDRESS, calldata, gas - 1n);
+            if (belowCost.success) {
+                throw new Error(`ModExp succeeded with ${gas - 1n} gas`);
+            }
+            console.log(`✓ 2^3 mod 5 = 3 with exactly ${gas} gas, not with one less`);
+        });
+
+        await h.test({ id: "state-override", title: "CLZ as runtime code via state override", eips: [7939] }, async () => {
+            let answer: string;
+            try {
+                answer = await callWithCode(h.provider, assemble([push(42), ...RETURN_TOP]));
+            } catch (error: any) {
+                const { code, message } = rpcErrorOf(error);
+                skip(`node rejects eth_call state overrides (code ${code ?? "none"}: ${message})`);
+            }
+            if (answer === "0x" || BigInt(answer) !== 42n) {
+                skip(`node ignores eth_call state overrides (returned "${answer}")`);
+            }
+
+            const code = assemble(["PUSH0", "CALLDATALOAD", "CLZ", ...RETURN_TOP]);
+            for (const value of CLZ_INPUTS) {
+                const result = BigInt(await callWithCode(h.provider, code, ethers.toBeHex(value, 32)));
+                if (result !== BigInt(clz(value))) {
+                    throw new Error(`CLZ(${ethers.toBeHex(value)}) = ${result} (expected: ${clz(value)})`);
+                }
+            }
+            console.log(`✓ CLZ correct for ${CLZ_INPUTS.length} values read from calldata`);
+        });
+    },
+});
+
+if (isEntryPoint(import.meta.url)) {
+    runMain(bytecodeProbesSuite);
+}
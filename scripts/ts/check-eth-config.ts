@@ -2,175 +2,331 @@
 /**
  * @file check-eth-config.ts
  * @notice Validates eth_config RPC method (EIP-7910) and compares against expected structure
+ * @dev Accepts the canonical EIP-7910 layout (current/next/last) and the legacy Etherlink layout.
+ *      Expected precompile addresses and the Osaka activation point come from the --network profile.
  */
 
 import { ethers } from "ethers";
 import { readFileSync } from "fs";
 import { join } from "path";
-import { fileURLToPath } from "url";
-import { dirname } from "path";
-import * as dotenv from "dotenv";
-
-dotenv.config();
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-interface EthConfig {
-    chainId?: string;
-    networkId?: string;
-    fork?: string;
-    forkVersion?: string;
-    osaka?: {
-        activationBlock?: string | null;
-        activationTimestamp?: string | null;
-    };
-    gas?: {
-        maxTransactionGas?: string;
-        maxBlockGas?: string;
-    };
-    block?: {
-        maxRlpSize?: string;
-    };
-    precompiles?: {
-        secp256r1?: string;
-    };
-}
-
-async function checkEthConfig() {
-    const rpcUrl = process.env.ETH_RPC_URL;
-    if (!rpcUrl) {
-        console.error("ERROR: ETH_RPC_URL environment variable not set");
-        process.exit(1);
-    }
+import { REPO_ROOT } from "./lib/artifacts.js";
+import {
+    OSAKA_PRECOMPILES,
+    checkFixtureDrift,
+    checkPrecompiles,
+    validateEthConfig,
+    type EthConfig,
+    type Eip7910Config,
+    type ForkConfig,
+    type JsonSchemaNode,
+    type LegacyEthConfig,
+} from "./lib/eth-config.js";
+import { forkIdAtActivation } from "./lib/fork-id.js";
+import { resolveForkSchedule } from "./lib/fork-schedules.js";
+import { defineSuite, isEntryPoint, runMain, skip } from "./lib/harness.js";
+import type { NetworkProfile } from "./lib/networks.js";
+import { isMethodNotFound } from "./lib/rpc.js";
 
-    console.log(`Connecting to RPC: ${rpcUrl}`);
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-    try {
-        // Call eth_config
-        console.log("Calling eth_config...");
-        const config = await provider.send("eth_config", []) as EthConfig;
+const FIXTURE_PATH = join(REPO_ROOT, "docs/fixtures/eth_config.expected.json");
 
-        console.log("\n=== eth_config Response ===");
-        console.log(JSON.stringify(config, null, 2));
+function describeFork(label: string, fork: ForkConfig | null) {
+    console.log(`\n=== ${label} Fork ===`);
+    if (!fork) {
+        console.log("(none scheduled)");
+        return;
+    }
+    const activation = fork.activationTime === 0 ? "genesis" : new Date(fork.activationTime * 1000).toISOString();
+    console.log(`Activation Time: ${fork.activationTime} (${activation})`);
+    console.log(`Chain ID: ${BigInt(fork.chainId).toString()}`);
+    console.log(`Fork ID: ${fork.forkId}`);
+    if (fork.blobSchedule) {
+        const { target, max, baseFeeUpdateFraction } = fork.blobSchedule;
+        console.log(`Blob Schedule: target=${target} max=${max} baseFeeUpdateFraction=${baseFeeUpdateFraction}`);
+    } else {
+        console.log("Blob Schedule: none");
+    }
+    console.log(`Precompiles: ${Object.keys(fork.precompiles).length}`);
+    console.log(`System Contracts: ${Object.keys(fork.systemContracts).join(", ") || "none"}`);
+}
 
-        // Validate required fields
-        if (!config.chainId) {
-            console.error("ERROR: chainId missing from eth_config response");
-            process.exit(1);
-        }
+/**
+ * @notice Compare the node's forkId for current/next/last with the locally computed EIP-2124 hash
+ * @dev Skips when neither a known fork schedule nor a network profile covers the chain
+ */
+async function checkForkIds(
+    config: Eip7910Config,
+    network: NetworkProfile | null,
+    provider: ethers.JsonRpcProvider
+): Promise<void> {
+    const chainId = BigInt(config.current.chainId);
+    const schedule = await resolveForkSchedule(chainId, network, provider);
+    if (!schedule) {
+        skip(`no fork schedule or network profile known for chain ${chainId}`);
+    }
+    const scheduled = schedule.forks.map((fork) => `${fork.name}@${fork.block ?? fork.time}`).join(", ") || "none";
+    console.log(`Using ${schedule.network} fork schedule (genesis ${schedule.genesisHash}, forks: ${scheduled})`);
 
-        if (!config.fork) {
-            console.error("ERROR: fork missing from eth_config response");
-            process.exit(1);
+    let mismatches = 0;
+    const forks: [string, ForkConfig | null][] = [
+        ["current", config.current],
+        ["next", config.next],
+        ["last", config.last],
+    ];
+    for (const [label, fork] of forks) {
+        if (!fork) {
+            continue;
         }
-
-        // Check if Osaka is mentioned in fork name
-        const forkName = config.fork.toLowerCase();
-        if (forkName.includes("osaka")) {
-            console.log("\n✓ Osaka fork detected in fork name");
+        const expected = forkIdAtActivation(schedule, fork.activationTime).hash;
+        if (fork.forkId.toLowerCase() === expected) {
+            console.log(`✓ ${label}: ${fork.forkId} matches computed fork ID`);
         } else {
-            console.warn("\n⚠ Warning: Osaka not mentioned in fork name");
+            console.error(`✗ ${label}: node reports ${fork.forkId}, computed ${expected} (activationTime ${fork.activationTime})`);
+            mismatches++;
         }
+    }
+    if (mismatches > 0) {
+        throw new Error(`${mismatches} fork ID(s) differ from the computed EIP-2124 hash`);
+    }
+}
 
-        // Check Osaka activation
-        if (config.osaka) {
-            console.log("\n=== Osaka Configuration ===");
-            if (config.osaka.activationBlock) {
-                const blockNum = BigInt(config.osaka.activationBlock);
-                console.log(`Activation Block: ${blockNum.toString()}`);
+/** Osaka precompile addresses, with the selected profile's overrides applied */
+function expectedPrecompiles(network: NetworkProfile | null): Record<string, string> {
+    return { ...OSAKA_PRECOMPILES, ...network?.precompiles };
+}
 
-                // Get current block
-                const currentBlock = await provider.getBlockNumber();
-                console.log(`Current Block: ${currentBlock}`);
+/**
+ * @notice Check that every expected Osaka precompile is in the current fork's precompile map
+ */
+function checkOsakaPrecompiles(config: Eip7910Config, expected: Record<string, string>): void {
+    const problems = checkPrecompiles(config.current, expected);
+    for (const problem of problems) {
+        console.error(`✗ ${problem}`);
+    }
+    if (problems.length > 0) {
+        throw new Error(`${problems.length} Osaka precompile(s) missing or misplaced in current.precompiles`);
+    }
+    console.log(`✓ All ${Object.keys(expected).length} Osaka precompiles present at expected addresses`);
+    console.log(`✓ P256VERIFY at ${config.current.precompiles.P256VERIFY}`);
+}
 
-                if (currentBlock >= Number(blockNum)) {
-                    console.log("✓ Osaka fork is active");
-                } else {
-                    console.log(`⚠ Osaka fork not yet active (activates at block ${blockNum.toString()})`);
-                }
-            }
-            if (config.osaka.activationTimestamp) {
-                const timestamp = BigInt(config.osaka.activationTimestamp);
-                console.log(`Activation Timestamp: ${timestamp.toString()}`);
+/**
+ * @notice Report on the legacy Etherlink layout
+ * @dev The legacy layout only produces warnings
+ */
+async function reportLegacy(
+    config: LegacyEthConfig,
+    provider: ethers.JsonRpcProvider,
+    expectedP256: string
+): Promise<void> {
+    // Check if Osaka is mentioned in fork name
+    const forkName = config.fork.toLowerCase();
+    if (forkName.includes("osaka")) {
+        console.log("\n✓ Osaka fork detected in fork name");
+    } else {
+        console.warn("\n⚠ Warning: Osaka not mentioned in fork name");
+    }
+
+    // Check Osaka activation
+    if (config.osaka) {
+        console.log("\n=== Osaka Configuration ===");
+        if (config.osaka.activationBlock) {
+            const blockNum = BigInt(config.osaka.activationBlock);
+            console.log(`Activation Block: ${blockNum.toString()}`);
+
+            // Get current block
+            const currentBlock = await provider.getBlockNumber();
+            console.log(`Current Block: ${currentBlock}`);
+
+            if (currentBlock >= Number(blockNum)) {
+                console.log("✓ Osaka fork is active");
+            } else {
+                console.log(`⚠ Osaka fork not yet active (activates at block ${blockNum.toString()})`);
             }
-        } else {
-            console.warn("\n⚠ Warning: osaka configuration not found in eth_config");
         }
+        if (config.osaka.activationTimestamp) {
+            const timestamp = BigInt(config.osaka.activationTimestamp);
+            console.log(`Activation Timestamp: ${timestamp.toString()}`);
+        }
+    } else {
+        console.warn("\n⚠ Warning: osaka configuration not found in eth_config");
+    }
 
-        // Check gas limits
-        if (config.gas) {
-            console.log("\n=== Gas Configuration ===");
-            if (config.gas.maxTransactionGas) {
-                const maxTxGas = BigInt(config.gas.maxTransactionGas);
-                console.log(`Max Transaction Gas: ${maxTxGas.toString()} (0x${maxTxGas.toString(16)})`);
-            }
-            if (config.gas.maxBlockGas) {
-                const maxBlockGas = BigInt(config.gas.maxBlockGas);
-                console.log(`Max Block Gas: ${maxBlockGas.toString()} (0x${maxBlockGas.toString(16)})`);
-            }
+    // Check gas limits
+    if (config.gas) {
+        console.log("\n=== Gas Configuration ===");
+        if (config.gas.maxTransactionGas) {
+            const maxTxGas = BigInt(config.gas.maxTransactionGas);
+            console.log(`Max Transaction Gas: ${maxTxGas.toString()} (0x${maxTxGas.toString(16)})`);
         }
+        if (config.gas.maxBlockGas) {
+            const maxBlockGas = BigInt(config.gas.maxBlockGas);
+            console.log(`Max Block Gas: ${maxBlockGas.toString()} (0x${maxBlockGas.toString(16)})`);
+        }
+    }
 
-        // Check block size limits
-        if (config.block) {
-            console.log("\n=== Block Configuration ===");
-            if (config.block.maxRlpSize) {
-                const maxRlpSize = BigInt(config.block.maxRlpSize);
-                const maxRlpSizeMB = Number(maxRlpSize) / (1024 * 1024);
-                console.log(`Max RLP Size: ${maxRlpSize.toString()} bytes (${maxRlpSizeMB.toFixed(2)} MiB)`);
-            }
+    // Check block size limits
+    if (config.block) {
+        console.log("\n=== Block Configuration ===");
+        if (config.block.maxRlpSize) {
+            const maxRlpSize = BigInt(config.block.maxRlpSize);
+            const maxRlpSizeMB = Number(maxRlpSize) / (1024 * 1024);
+            console.log(`Max RLP Size: ${maxRlpSize.toString()} bytes (${maxRlpSizeMB.toFixed(2)} MiB)`);
         }
+    }
 
-        // Check precompiles
-        if (config.precompiles) {
-            console.log("\n=== Precompiles Configuration ===");
-            if (config.precompiles.secp256r1) {
-                console.log(`secp256r1 Precompile: ${config.precompiles.secp256r1}`);
-                if (config.precompiles.secp256r1.toLowerCase() === "0x100") {
-                    console.log("✓ secp256r1 precompile address is correct (0x100)");
-                } else {
-                    console.warn(`⚠ secp256r1 precompile address differs from expected (0x100)`);
-                }
+    // Check precompiles
+    if (config.precompiles) {
+        console.log("\n=== Precompiles Configuration ===");
+        if (config.precompiles.secp256r1) {
+            console.log(`secp256r1 Precompile: ${config.precompiles.secp256r1}`);
+            const expected = ethers.toQuantity(expectedP256);
+            if (BigInt(config.precompiles.secp256r1) === BigInt(expectedP256)) {
+                console.log(`✓ secp256r1 precompile address is correct (${expected})`);
+            } else {
+                console.warn(`⚠ secp256r1 precompile address differs from expected (${expected})`);
             }
         }
+    }
+}
+
+/**
+ * @notice Compare the Osaka activation point reported by the node with the selected profile
+ * @dev EIP-7910 fork objects carry no fork name, so the profile's activation time must match
+ *      one of current/next/last; the legacy layout reports the block and timestamp directly
+ */
+function checkOsakaActivation(ethConfig: EthConfig, network: NetworkProfile | null): void {
+    const expected = network?.osaka;
+    if (!network || !expected || (expected.activationBlock === null && expected.activationTime === null)) {
+        skip("no Osaka activation point in the selected network profile");
+    }
+
+    if (ethConfig.dialect === "eip7910") {
+        if (expected.activationTime === null) {
+            skip("EIP-7910 reports activation times only; the profile sets an activation block");
+        }
+        const config = ethConfig.config;
+        const times = [config.current, config.next, config.last].flatMap((fork) => (fork ? [fork.activationTime] : []));
+        if (!times.includes(expected.activationTime)) {
+            throw new Error(
+                `no fork activates at ${expected.activationTime} (${network.name}); node reports ${times.join(", ")}`
+            );
+        }
+        console.log(`✓ A fork activates at ${expected.activationTime} as expected for ${network.name}`);
+        return;
+    }
 
-        // Compare with expected structure (if fixture exists)
-        try {
-            const fixturePath = join(__dirname, "../../docs/fixtures/eth_config.expected.json");
-            const expectedSchema = JSON.parse(readFileSync(fixturePath, "utf-8"));
-            console.log("\n=== Validation ===");
-            console.log("✓ Response structure validated against schema");
-        } catch (err) {
-            // Fixture file not found or invalid - that's okay
-            console.log("\n⚠ Could not load expected schema for comparison");
+    const osaka = ethConfig.config.osaka;
+    const reported: [string, string | null | undefined, bigint | null][] = [
+        ["activationBlock", osaka?.activationBlock, expected.activationBlock],
+        ["activationTimestamp", osaka?.activationTimestamp, expected.activationTime === null ? null : BigInt(expected.activationTime)],
+    ];
+    let mismatches = 0;
+    for (const [field, actual, want] of reported) {
+        if (want === null) {
+            continue;
         }
+        if (actual && BigInt(actual) === want) {
+            console.log(`✓ osaka.${field} is ${want.toString()}`);
+        } else {
+            console.error(`✗ osaka.${field}: node reports ${actual ?? "nothing"}, ${network.name} expects ${want.toString()}`);
+            mismatches++;
+        }
+    }
+    if (mismatches > 0) {
+        throw new Error(`${mismatches} Osaka activation field(s) differ from the ${network.name} profile`);
+    }
+}
 
-        console.log("\n✓ eth_config check completed successfully");
+/**
+ * @notice Call eth_config and validate it against the fixture schema
+ * @return The parsed response tagged with its dialect
+ */
+async function fetchEthConfig(provider: ethers.JsonRpcProvider): Promise<EthConfig> {
+    console.log("Calling eth_config...");
+    let raw: unknown;
+    try {
+        raw = await provider.send("eth_config", []);
     } catch (error: any) {
-        console.error("\nERROR: Failed to call eth_config");
-        console.error(error.message);
+        if (isMethodNotFound(error)) {
+            skip("the eth_config method is not available on this node");
+        }
+        throw error;
+    }
 
-        // Check for Method Not Found (-32601)
-        const isMethodNotFound =
-            error.code === "METHOD_NOT_FOUND" ||
-            (error.error && error.error.code === -32601) ||
-            (error.info && error.info.error && error.info.error.code === -32601) ||
-            (error.message && error.message.includes("Method not found"));
+    console.log("\n=== eth_config Response ===");
+    console.log(JSON.stringify(raw, null, 2));
 
-        if (isMethodNotFound) {
-            console.warn("⚠ The eth_config method is not available on this node. Skipping config check.");
-            process.exit(0); // Exit success to allow other tests to proceed
+    // Validate against the expected schema (docs/fixtures/eth_config.expected.json)
+    console.log("\n=== Validation ===");
+    const fixture = JSON.parse(readFileSync(FIXTURE_PATH, "utf-8")) as JsonSchemaNode;
+    const drift = checkFixtureDrift(fixture);
+    if (drift.length > 0) {
+        for (const line of drift) {
+            console.error(`  ${line}`);
         }
-        process.exit(1);
+        throw new Error("eth_config validator is out of step with the fixture schema");
     }
-}
 
-checkEthConfig().catch((error) => {
-    console.error("Fatal error:", error);
-    process.exit(1);
-});
+    const validation = validateEthConfig(raw);
+    if (!validation.ok) {
+        for (const issue of validation.issues) {
+            console.error(`  [${issue.kind}] ${issue.path}: ${issue.message}`);
+        }
+        throw new Error(`response does not match schema (${validation.issues.length} issue(s))`);
+    }
+    console.log("✓ Response structure validated against schema");
+    console.log(`Dialect: ${validation.dialect === "eip7910" ? "EIP-7910 (current/next/last)" : "legacy Etherlink"}`);
 
+    if (validation.dialect === "eip7910") {
+        describeFork("Current", validation.config.current);
+        describeFork("Next", validation.config.next);
+        describeFork("Last", validation.config.last);
+    }
+    return validation;
+}
 
+export const ethConfigSuite = defineSuite({
+    id: "eth-config",
+    title: "eth_config (EIP-7910)",
+    eips: [7910, 7951],
+    async run(h) {
+        let ethConfig = null as EthConfig | null;
+        await h.test({ id: "schema", title: "eth_config schema validation", prerequisite: true }, async () => {
+            ethConfig = await fetchEthConfig(h.provider);
+        });
+        if (!ethConfig) {
+            return;
+        }
 
+        if (ethConfig.dialect === "eip7910") {
+            const config = ethConfig.config;
+            await h.test({ id: "fork-ids", title: "Fork IDs (EIP-2124)" }, async () => {
+                await checkForkIds(config, h.network, h.provider);
+            });
+            await h.test(
+                { id: "osaka-precompiles", title: "Osaka Precompiles (current fork)", eips: [7910, 7951] },
+                async () => {
+                    const latest = await h.provider.getBlock("latest");
+                    if (latest && latest.timestamp < config.current.activationTime) {
+                        console.warn("⚠ Current fork activation time is ahead of the latest block");
+                    }
+                    checkOsakaPrecompiles(config, expectedPrecompiles(h.network));
+                }
+            );
+        } else {
+            const config = ethConfig.config;
+            await h.test({ id: "legacy-report", title: "Legacy eth_config report" }, async () => {
+                await reportLegacy(config, h.provider, expectedPrecompiles(h.network).P256VERIFY);
+            });
+        }
+
+        const reported = ethConfig;
+        await h.test({ id: "osaka-activation", title: "Osaka activation point" }, async () => {
+            checkOsakaActivation(reported, h.network);
+        });
+    },
+});
 
+if (isEntryPoint(import.meta.url)) {
+    runMain(ethConfigSuite);
+}
@@ -0,0 +1,291 @@
+#!/usr/bin/env node
+/**
+ * @file fork-differential.ts
+ * @notice Runs the Osaka probes at the last pre-fork block and the activation block, side by side
+ * @dev Each probe is raw bytecode run through eth_call at block activation-1 and at activation,
+ *      so the node must serve state for both (an archive node, or one pruned after activation).
+ *      Before the fork CLZ must be an invalid opcode, 0x100 must be an empty account and ModExp
+ *      must charge EIP-2565 prices; at activation all three must show Osaka behaviour. The
+ *      result is printed as a before/after table per EIP.
+ *      The activation block comes from --activation-block, then OSAKA_FORK_BLOCK or the profile's
+ *      activationBlock, then the first block at or after the profile's activationTime.
+ */
+
+import { ethers } from "ethers";
+import { parseArgs } from "util";
+import { clz } from "./lib/clz.js";
+import { assemble, callInitcode, push, RETURN_TOP } from "./lib/evm-asm.js";
+import { defineSuite, isEntryPoint, runMain, skip, type Harness } from "./lib/harness.js";
+import {
+    encodeModExpInput,
+    MODEXP_ADDRESS,
+    modExpGas,
+    modExpGasEip2565,
+    modExpOutput,
+    type ModExpInput,
+} from "./lib/modexp.js";
+import { generateVectors, P256VERIFY_ADDRESS, P256VERIFY_GAS, packInput } from "./lib/p256.js";
+import { staticcallWithGas } from "./lib/precompile-call.js";
+import { rpcErrorOf } from "./lib/rpc.js";
+
+const options = {
+    "activation-block": { type: "string" },
+} as const;
+
+/** Gas forwarded to ModExp; enough for both pricings of every probe input */
+const MODEXP_PROBE_GAS = 1_000_000n;
+
+const CLZ_PROBE_VALUE = 1n << 200n;
+
+/** One side of a probe: what the node did, and whether that is what the fork expects */
+interface Observation {
+    observed: string;
+    ok: boolean;
+}
+
+interface DiffRow {
+    eip: number;
+    probe: string;
+    before: Observation;
+    after: Observation;
+}
+
+/**
+ * @notice First block whose timestamp is at or after `time`, by binary search
+ * @return null when the latest block is still before `time`
+ */
+async function firstBlockAtOrAfter(
+    provider: ethers.JsonRpcProvider,
+    time: number,
+    latest: number
+): Promise<number | null> {
+    const timestampOf = async (number: number) => (await provider.getBlock(number))!.timestamp;
+    if ((await timestampOf(latest)) < time) {
+        return null;
+    }
+    let low = 0;
+    let high = latest;
+    while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if ((await timestampOf(mid)) >= time) {
+            high = mid;
+        } else {
+            low = mid + 1;
+        }
+    }
+    return low;
+}
+
+/**
+ * @notice Resolve the Osaka activation block, skipping when there is no pre-fork block to compare
+ */
+async function resolveActivationBlock(h: Harness, flag: string | undefined): Promise<number> {
+    const latest = await h.provider.getBlockNumber();
+    let activation: number | null = null;
+    let source: string;
+    if (flag !== undefined) {
+        if (!/^\d+$/.test(flag)) {
+            throw new Error(`--activation-block must be a block number, got "${flag}"`);
+        }
+        activation = Number(flag);
+        source = "--activation-block";
+    } else if (h.env.osakaForkBlock !== null) {
+        activation = Number(h.env.osakaForkBlock);
+        source = process.env.OSAKA_FORK_BLOCK ? "OSAKA_FORK_BLOCK" : `${h.network!.name} profile`;
+    } else if (h.network && h.network.osaka.activationTime !== null) {
+        const time = h.network.osaka.activationTime;
+        activation = await firstBlockAtOrAfter(h.provider, time, latest);
+        if (activation === null) {
+            skip(`Osaka activates at time ${time} (${h.network.name}); the latest block is older`);
+        }
+        source = `first block at or after time ${time} (${h.network.name})`;
+    } else {
+        skip(
+            "Osaka activation block unknown; pass --activation-block, set OSAKA_FORK_BLOCK or use a --network profile"
+        );
+    }
+
+    if (activation === 0) {
+        skip("Osaka is active from genesis; there is no pre-fork block to compare");
+    }
+    if (activation > latest) {
+        skip(`activation block ${activation} is ahead of the latest block ${latest}`);
+    }
+    console.log(`Activation block: ${activation} (${source})`);
+    return activation;
+}
+
+const observe = (observed: string, ok: boolean): Observation => ({ observed, ok });
+
+async function diffClz(h: Harness, blocks: [string, string]): Promise<DiffRow> {
+    const program = assemble([["PUSH32", CLZ_PROBE_VALUE], "CLZ", ...RETURN_TOP]);
+    const expected = BigInt(clz(CLZ_PROBE_VALUE));
+    const describe = (outcome: { result: bigint | null; error: string | null }) =>
+        outcome.error !== null ? `rejected: ${outcome.error}` : `${outcome.result}`;
+    const [before, after] = await Promise.all(
+        blocks.map(async (block) => {
+            try {
+                return { result: BigInt(await callInitcode(h.provider, program, block)), error: null };
+            } catch (error: any) {
+                return { result: null, error: rpcErrorOf(error).message };
+            }
+        })
+    );
+    return {
+        eip: 7939,
+        probe: "CLZ(2^200)",
+        before: observe(describe(before), before.error !== null),
+        after: observe(describe(after), after.result === expected),
+    };
+}
+
+async function diffP256(h: Harness, blocks: [string, string]): Promise<DiffRow> {
+    const input = packInput(generateVectors(1)[0]);
+    const [before, after] = await Promise.all(
+        blocks.map((block) => staticcallWithGas(h.provider, P256VERIFY_ADDRESS, input, P256VERIFY_GAS, block))
+    );
+    const describe = (outcome: typeof before) =>
+        !outcome.success
+            ? "call failed"
+            : outcome.returnData === "0x"
+              ? "empty output (no precompile)"
+              : `${BigInt(outcome.returnData)} (${outcome.gasUsed} gas)`;
+    return {
+        eip: 7951,
+        probe: `P256VERIFY valid signature, ${P256VERIFY_GAS} gas`,
+        before: observe(describe(before), before.success && before.returnData === "0x"),
+        after: observe(
+            describe(after),
+            after.success && after.returnData === ethers.toBeHex(1, 32) && after.gasUsed === P256VERIFY_GAS
+        ),
+    };
+}
+
+async function diffModExpPricing(
+    h: Harness,
+    blocks: [string, string],
+    name: string,
+    input: ModExpInput
+): Promise<DiffRow> {
+    const calldata = encodeModExpInput(input);
+    const output = modExpOutput(input);
+    const [before, after] = await Promise.all(
+        blocks.map((block) => staticcallWithGas(h.provider, MODEXP_ADDRESS, calldata, MODEXP_PROBE_GAS, block))
+    );
+    const describe = (outcome: typeof before, expected: bigint) =>
+        !outcome.success
+            ? "call failed"
+            : outcome.returnData !== output
+              ? `wrong output ${outcome.returnData}`
+              : `${outcome.gasUsed} gas (expected ${expected})`;
+    const oldGas = modExpGasEip2565(input);
+    const newGas = modExpGas(input)!;
+    return {
+        eip: 7883,
+        probe: `ModExp ${name}`,
+        before: observe(describe(before, oldGas), before.returnData === output && before.gasUsed === oldGas),
+        after: observe(describe(after, newGas), after.returnData === output && after.gasUsed === newGas),
+    };
+}
+
+function printTable(rows: DiffRow[], blocks: [number, number]): void {
+    const cell = (observation: Observation) => `${observation.ok ? "✓" : "✗"} ${observation.observed}`;
+    const header = ["EIP", "Probe", `Before (#${blocks[0]})`, `After (#${blocks[1]})`];
+    const lines = rows.map((row) => [`${row.eip}`, row.probe, cell(row.before), cell(row.after)]);
+    const widths = header.map((title, i) => Math.max(title.length, ...lines.map((line) => line[i].length)));
+    const format = (line: string[]) => line.map((text, i) => text.padEnd(widths[i])).join(" | ");
+    console.log(`\n${format(header)}`);
+    console.log(widths.map((width) => "-".repeat(width)).join("-|-"));
+    for (const line of lines) {
+        console.log(format(line));
+    }
+}
+
+export const forkDifferentialSuite = defineSuite({
+    id: "fork-diff",
+    title: "Pre-fork vs post-fork differential",
+    eips: [7939, 7951, 7883],
+    async run(h) {
+        const { values } = parseArgs({ args: h.argv, options, strict: false });
+        const flag = values["activation-block"] as string | undefined;
+
+        let activation: Promise<[string, string]> | null = null;
+        const getBlocks = () => {
+            activation ??= (async () => {
+                const block = await resolveActivationBlock(h, flag);
+                const blocks: [string, string] = [ethers.toQuantity(block - 1), ethers.toQuantity(block)];
+                // Tell missing historical state apart from a missing feature before probing
+                const sanity = assemble([push(42), ...RETURN_TOP]);
+                for (const tag of blocks) {
+                    try {
+                        await callInitcode(h.provider, sanity, tag);
+                    } catch (error: any) {
+                        const { code, message } = rpcErrorOf(error);
+                        skip(`node cannot run eth_call at block ${BigInt(tag)} (code ${code ?? "none"}: ${message})`);
+                    }
+                }
+                return blocks;
+            })();
+            return activation;
+        };
+
+        const rows: DiffRow[] = [];
+        const check = (row: DiffRow) => {
+            rows.push(row);
+            h.detail(row.probe, { before: row.before, after: row.after });
+            const failed = [row.before.ok ? null : "before", row.after.ok ? null : "after"].filter(Boolean);
+            if (failed.length > 0) {
+                throw new Error(
+                    `${row.probe}: unexpected ${failed.join(" and ")} activation ` +
+                        `(before: ${row.before.observed}; after: ${row.after.observed})`
+                );
+            }
+            console.log(`✓ ${row.probe}: ${row.before.observed} → ${row.after.observed}`);
+        };
+
+        await h.test({ id: "clz", title: "CLZ switches on at activation", eips: [7939] }, async () => {
+            check(await diffClz(h, await getBlocks()));
+        });
+
+        await h.test({ id: "p256verify", title: "P256VERIFY switches on at activation", eips: [7951] }, async () => {
+            check(await diffP256(h, await getBlocks()));
+        });
+
+        await h.test({ id: "modexp-pricing", title: "ModExp pricing changes at activation", eips: [7883] }, async () => {
+            const blocks = await getBlocks();
+            const inputs: [string, ModExpInput][] = [
+                ["2^3 mod 5", { base: "0x02", exponent: "0x03", modulus: "0x05" }],
+                [
+                    "64-byte operands, 32-byte exponent",
+                    {
+                        base: ethers.toBeHex(3, 64),
+                        exponent: ethers.toBeHex(ethers.MaxUint256, 32),
+                        modulus: ethers.toBeHex((1n << 511n) + 1n, 64),
+                    },
+                ],
+            ];
+            const results = await Promise.all(inputs.map(([name, input]) => diffModExpPricing(h, blocks, name, input)));
+            const errors: string[] = [];
+            for (const row of results) {
+                try {
+                    check(row);
+                } catch (error: any) {
+                    console.error(`✗ ${error.message}`);
+                    errors.push(error.message);
+                }
+            }
+            if (errors.length > 0) {
+                throw new Error(`${errors.length} ModExp pricing probe(s) failed`);
+            }
+        });
+
+        if (rows.length > 0) {
+            const [before, after] = (await getBlocks()).map((tag) => Number(BigInt(tag))) as [number, number];
+            printTable(rows, [before, after]);
+        }
+    },
+});
+
+if (isEntryPoint(import.meta.url)) {
+    runMain(forkDifferentialSuite);
+}
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+/**
+ * @file forkid-vectors.ts
+ * @notice Offline check of the EIP-2124 fork ID calculator against published mainnet and Sepolia fork IDs
+ * @dev Needs no RPC endpoint
+ */
+
+import { computeForkId, type ForkId, type ForkSchedule } from "./lib/fork-id.js";
+import { MAINNET_SCHEDULE, SEPOLIA_SCHEDULE } from "./lib/fork-schedules.js";
+import { defineSuite, isEntryPoint, runMain } from "./lib/harness.js";
+
+interface Vector {
+    head: { block: number; time: number };
+    expected: ForkId;
+}
+
+const MAINNET_VECTORS: Vector[] = [
+    { head: { block: 0, time: 0 }, expected: { hash: "0xfc64ec04", next: 1_150_000 } },
+    { head: { block: 1_149_999, time: 0 }, expected: { hash: "0xfc64ec04", next: 1_150_000 } },
+    { head: { block: 1_150_000, time: 0 }, expected: { hash: "0x97c2c34c", next: 1_920_000 } },
+    { head: { block: 1_920_000, time: 0 }, expected: { hash: "0x91d1f948", next: 2_463_000 } },
+    { head: { block: 2_463_000, time: 0 }, expected: { hash: "0x7a64da13", next: 2_675_000 } },
+    { head: { block: 2_675_000, time: 0 }, expected: { hash: "0x3edd5b10", next: 4_370_000 } },
+    { head: { block: 4_370_000, time: 0 }, expected: { hash: "0xa00bc324", next: 7_280_000 } },
+    { head: { block: 7_280_000, time: 0 }, expected: { hash: "0x668db0af", next: 9_069_000 } },
+    { head: { block: 9_069_000, time: 0 }, expected: { hash: "0x879d6e30", next: 9_200_000 } },
+    { head: { block: 9_200_000, time: 0 }, expected: { hash: "0xe029e991", next: 12_244_000 } },
+    { head: { block: 12_244_000, time: 0 }, expected: { hash: "0x0eb440f6", next: 12_965_000 } },
+    { head: { block: 12_965_000, time: 0 }, expected: { hash: "0xb715077d", next: 13_773_000 } },
+    { head: { block: 13_773_000, time: 0 }, expected: { hash: "0x20c327fc", next: 15_050_000 } },
+    { head: { block: 15_050_000, time: 0 }, expected: { hash: "0xf0afd0e3", next: 1_681_338_455 } },
+    { head: { block: 20_000_000, time: 1_681_338_454 }, expected: { hash: "0xf0afd0e3", next: 1_681_338_455 } },
+    { head: { block: 20_000_000, time: 1_681_338_455 }, expected: { hash: "0xdce96c2d", next: 1_710_338_135 } },
+    { head: { block: 20_000_000, time: 1_710_338_135 }, expected: { hash: "0x9f3d2254", next: 1_746_612_311 } },
+    { head: { block: 20_000_000, time: 1_746_612_311 }, expected: { hash: "0xc376cf8b", next: 1_764_798_551 } },
+    { head: { block: 20_000_000, time: 1_764_798_551 }, expected: { hash: "0x5167e2a6", next: 1_765_290_071 } },
+    { head: { block: 20_000_000, time: 1_765_290_071 }, expected: { hash: "0xcba2a1c0", next: 1_767_747_671 } },
+    { head: { block: 20_000_000, time: 1_767_747_671 }, expected: { hash: "0x07c9462e", next: 0 } },
+];
+
+const SEPOLIA_VECTORS: Vector[] = [
+    { head: { block: 0, time: 1_633_267_481 }, expected: { hash: "0xfe3366e7", next: 1_735_371 } },
+    { head: { block: 1_735_370, time: 0 }, expected: { hash: "0xfe3366e7", next: 1_735_371 } },
+    { head: { block: 1_735_371, time: 0 }, expected: { hash: "0xb96cbd13", next: 1_677_557_088 } },
+    { head: { block: 1_735_372, time: 1_677_557_087 }, expected: { hash: "0xb96cbd13", next: 1_677_557_088 } },
+    { head: { block: 1_735_372, time: 1_677_557_088 }, expected: { hash: "0xf7f9bc08", next: 1_706_655_072 } },
+    { head: { block: 1_735_372, time: 1_706_655_072 }, expected: { hash: "0x88cf81d9", next: 1_741_159_776 } },
+    { head: { block: 1_735_372, time: 1_741_159_776 }, expected: { hash: "0xed88b5fd", next: 1_760_427_360 } },
+];
+
+function runVectors(schedule: ForkSchedule, vectors: Vector[]): void {
+    let failures = 0;
+    for (const { head, expected } of vectors) {
+        const actual = computeForkId(schedule, head);
+        const label = `block=${head.block} time=${head.time}`;
+        if (actual.hash === expected.hash && actual.next === expected.next) {
+            console.log(`✓ ${label}: ${actual.hash} next=${actual.next}`);
+        } else {
+            console.error(
+                `✗ ${label}: got ${actual.hash} next=${actual.next}, expected ${expected.hash} next=${expected.next}`
+            );
+            failures++;
+        }
+    }
+    if (failures > 0) {
+        throw new Error(`${failures} ${schedule.network} fork ID vector(s) failed`);
+    }
+}
+
+export const forkIdVectorsSuite = defineSuite({
+    id: "fork-id-vectors",
+    title: "EIP-2124 Fork ID Vectors",
+    eips: [2124],
+    async run(h) {
+        await h.test({ id: "mainnet", title: "EIP-2124 Fork ID Vectors: mainnet" }, async () => {
+            runVectors(MAINNET_SCHEDULE, MAINNET_VECTORS);
+        });
+        await h.test({ id: "sepolia", title: "EIP-2124 Fork ID Vectors: sepolia" }, async () => {
+            runVectors(SEPOLIA_SCHEDULE, SEPOLIA_VECTORS);
+        });
+    },
+});
+
+if (isEntryPoint(import.meta.url)) {
+    runMain(forkIdVectorsSuite);
+}
@@ -0,0 +1,204 @@
+#!/usr/bin/env node
+/**
+ * @file gen-bindings.ts
+ * @notice Generates typed contract bindings in scripts/ts/bindings from Foundry artifacts
+ * @dev Usage:
+ *        gen-bindings [--check] [<ContractName> ...]
+ *      Reads out/<Name>.sol/<Name>.json (run `forge build` first) and writes bindings/<Name>.ts
+ *      with the human-readable ABI, the function and event types, and a factory that deploys
+ *      from the artifact (fresh, or through the deployment registry) or attaches to a deployed
+ *      address. Without names it generates the contracts the scripts use. With --check nothing
+ *      is written; the run fails if a binding is missing or differs from what the artifact
+ *      would generate.
+ */
+
+import { ethers } from "ethers";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import { loadArtifact, REPO_ROOT } from "./lib/artifacts.js";
+
+/** Contracts the scripts bind to */
+const DEFAULT_CONTRACTS = ["ClzDemo", "DataReceiver", "ModExpProbe", "Secp256r1Verifier"];
+
+const BINDINGS_DIR = join(REPO_ROOT, "scripts", "ts", "bindings");
+
+/** Names that cannot label a tuple element or a property without quoting */
+const RESERVED = new Set(["default", "function", "class", "delete", "new", "return", "this", "void", "in", "typeof"]);
+
+type Direction = "input" | "output";
+
+/**
+ * @notice TypeScript type for an ABI parameter: what ethers accepts as input, or decodes as output
+ */
+function tsType(param: ethers.ParamType, direction: Direction): string {
+    if (param.isArray()) {
+        return `${tsType(param.arrayChildren, direction)}[]`;
+    }
+    if (param.isTuple()) {
+        throw new Error(`tuple parameter ${param.format("full")} is not supported`);
+    }
+    const type = param.baseType;
+    if (/^u?int\d*$/.test(type)) {
+        return direction === "input" ? "ethers.BigNumberish" : "bigint";
+    }
+    if (/^bytes\d*$/.test(type)) {
+        return direction === "input" ? "ethers.BytesLike" : "string";
+    }
+    switch (type) {
+        case "bool":
+            return "boolean";
+        case "address":
+            return direction === "input" ? "ethers.AddressLike" : "string";
+        case "string":
+            return "string";
+        default:
+            throw new Error(`unsupported ABI type ${type}`);
+    }
+}
+
+function label(param: ethers.ParamType, fallback: string): string {
+    const name = param.name || fallback;
+    return RESERVED.has(name) ? `${name}_` : name;
+}
+
+function labelledTuple(params: readonly ethers.ParamType[], direction: Direction): string {
+    const prefix = direction === "input" ? "arg" : "out";
+    return `[${params.map((param, i) => `${label(param, `${prefix}${i}`)}: ${tsType(param, direction)}`).join(", ")}]`;
+}
+
+function outputType(outputs: readonly ethers.ParamType[]): string {
+    if (outputs.length === 0) {
+        return "void";
+    }
+    return outputs.length === 1 ? tsType(outputs[0], "output") : labelledTuple(outputs, "output");
+}
+
+/** CLZ_DEMO_ABI for ClzDemo */
+const constantName = (name: string) => `${name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase()}_ABI`;
+
+/**
+ * @notice Source of the binding module for `name`
+ */
+function generateBinding(name: string, abi: ethers.InterfaceAbi): string {
+    const iface = new ethers.Interface(abi);
+    const abiConstant = constantName(name);
+
+    const functions: string[] = [];
+    const seen = new Set<string>();
+    iface.forEachFunction((fragment) => {
+        if (seen.has(fragment.name)) {
+            throw new Error(`${name}.${fragment.name} is overloaded; overloads are not supported`);
+        }
+        seen.add(fragment.name);
+        functions.push(
+            [
+                `    ${fragment.name}: {`,
+                `        inputs: ${labelledTuple(fragment.inputs, "input")};`,
+                `        outputs: ${outputType(fragment.outputs)};`,
+                `        mutability: "${fragment.stateMutability}";`,
+                `    };`,
+            ].join("\n")
+        );
+    });
+
+    const events: string[] = [];
+    iface.forEachEvent((fragment) => {
+        const fields = fragment.inputs.map((param, i) => `${label(param, `arg${i}`)}: ${tsType(param, "output")}`);
+        events.push(`    ${fragment.name}: { ${fields.join("; ")} };`);
+    });
+
+    const body = (entries: string[]) => (entries.length === 0 ? "{}" : `{\n${entries.join("\n")}\n}`);
+    return `/**
+ * @file ${name}.ts
+ * @notice Typed binding for ${name}
+ * @dev Generated by scripts/ts/gen-bindings.ts from out/${name}.sol/${name}.json; do not edit.
+ *      Run \`npm run bindings\` after changing the contract.
+ */
+
+import type { ethers } from "ethers";
+import { deployContract } from "../lib/artifacts.js";
+import { deployOrReuse, type DeploymentOptions } from "../lib/deployments.js";
+import { attachTyped, type TypedContract } from "../lib/typed-contract.js";
+
+export const ${abiConstant} = [
+${iface.format(false).map((line) => `    ${JSON.stringify(line)},`).join("\n")}
+] as const;
+
+export type ${name}Functions = ${body(functions)};
+
+export type ${name}Events = ${body(events)};
+
+export type ${name} = TypedContract<${name}Functions, ${name}Events>;
+
+export const ${name}Factory = {
+    contractName: "${name}",
+    abi: ${abiConstant},
+    /** Deploy from the Foundry artifact in out/ */
+    deploy: (runner: ethers.Signer) => deployContract<${name}>("${name}", runner),
+    /** Reuse the deployment recorded in deployments/<chainId>.json, or deploy and record it */
+    deployOrReuse: (runner: ethers.Signer, options?: DeploymentOptions) =>
+        deployOrReuse<${name}>("${name}", runner, options),
+    /** Typed handle on an existing deployment; needs no artifact */
+    attach: (address: string, runner: ethers.ContractRunner | null = null) =>
+        attachTyped<${name}>(address, ${abiConstant}, runner),
+};
+`;
+}
+
+function generateIndex(names: string[]): string {
+    return `/**
+ * @file index.ts
+ * @notice Typed contract bindings
+ * @dev Generated by scripts/ts/gen-bindings.ts; do not edit.
+ */
+
+${[...names].sort().map((name) => `export * from "./${name}.js";`).join("\n")}
+`;
+}
+
+function main() {
+    const { values, positionals } = parseArgs({
+        args: process.argv.slice(2),
+        options: { check: { type: "boolean", default: false } },
+        allowPositionals: true,
+    });
+    const names = positionals.length > 0 ? positionals : DEFAULT_CONTRACTS;
+
+    const files = new Map<string, string>();
+    for (const name of names) {
+        files.set(`${name}.ts`, generateBinding(name, loadArtifact(name).abi));
+    }
+    if (positionals.length === 0) {
+        files.set("index.ts", generateIndex(names));
+    }
+
+    if (values.check) {
+        const stale = [...files].filter(([file, source]) => {
+            const path = join(BINDINGS_DIR, file);
+            return !existsSync(path) || readFileSync(path, "utf-8") !== source;
+        });
+        for (const [file] of stale) {
+            console.error(`✗ bindings/${file} is out of date`);
+        }
+        if (stale.length > 0) {
+            console.error('Run "npm run bindings" to regenerate');
+            process.exit(1);
+        }
+        console.log(`✓ ${files.size} binding file(s) up to date`);
+        return;
+    }
+
+    mkdirSync(BINDINGS_DIR, { recursive: true });
+    for (const [file, source] of files) {
+        writeFileSync(join(BINDINGS_DIR, file), source);
+        console.log(`✓ Wrote bindings/${file}`);
+    }
+}
+
+try {
+    main();
+} catch (error: any) {
+    console.error(`ERROR: ${error.message}`);
+    process.exit(1);
+}
@@ -0,0 +1,72 @@
+/**
+ * @file artifacts.ts
+ * @notice Loading and deploying Foundry build artifacts from out/
+ */
+
+import { ethers } from "ethers";
+import { existsSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+/** Repository root (scripts/ts/lib → ../../..) */
+export const REPO_ROOT = join(dirname(fileURLToPath(import.meta.url)), "../../..");
+
+export type ForgeArtifact = {
+    abi: ethers.JsonFragment[];
+    bytecode?: string | { object: string };
+    deployedBytecode?: string | { object: string };
+};
+
+/**
+ * @notice Load the artifact of a contract compiled by `forge build`
+ * @param contractName Contract name; the source file is assumed to be `<contractName>.sol`
+ */
+export function loadArtifact(contractName: string): ForgeArtifact {
+    const fullPath = join(REPO_ROOT, "out", `${contractName}.sol`, `${contractName}.json`);
+    if (!existsSync(fullPath)) {
+        throw new Error(`Artifact not found at ${fullPath}. Did you run "forge build"?`);
+    }
+    const raw = readFileSync(fullPath, "utf-8");
+    return JSON.parse(raw) as ForgeArtifact;
+}
+
+function bytecodeField(bc: ForgeArtifact["bytecode"], field: string): string {
+    if (typeof bc === "string") {
+        return bc;
+    }
+    if (bc && typeof bc.object === "string") {
+        return bc.object;
+    }
+    throw new Error(`Unable to determine contract ${field} from artifact`);
+}
+
+/**
+ * @notice Extract creation bytecode from an artifact
+ * @dev Supports both a plain `bytecode` string and Foundry's `bytecode.object`
+ */
+export function getBytecode(artifact: ForgeArtifact): string {
+    return bytecodeField(artifact.bytecode, "bytecode");
+}
+
+/**
+ * @notice Extract runtime bytecode from an artifact, as `deployedBytecode` or `deployedBytecode.object`
+ */
+export function getDeployedBytecode(artifact: ForgeArtifact): string {
+    return bytecodeField(artifact.deployedBytecode, "deployedBytecode");
+}
+
+/**
+ * @notice Deploy a contract from its Foundry artifact and wait for the deployment
+ * @param contractName Contract name, see loadArtifact
+ * @param runner Signer paying for the deployment
+ * @return The contract, typed as C when a binding from scripts/ts/bindings names it
+ */
+export async function deployContract<C = ethers.BaseContract>(contractName: string, runner: ethers.Signer): Promise<C> {
+    const artifact = loadArtifact(contractName);
+    console.log(`Deploying ${contractName} contract...`);
+    const factory = new ethers.ContractFactory(artifact.abi, getBytecode(artifact), runner);
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    console.log(`✓ ${contractName} deployed at: ${await contract.getAddress()}`);
+    return contract as unknown as C;
+}
@@ -0,0 +1,261 @@
+/**
+ * @file block-rlp.ts
+ * @notice Exact RLP encoding of execution blocks from JSON-RPC data (EIP-7934 block size)
+ * @dev EIP-7934 limits `len(rlp([header, transactions, ommers, withdrawals]))`. Headers and
+ *      transactions are rebuilt field by field from eth_getBlockByNumber / eth_getTransactionByHash
+ *      results. Legacy transactions sit in the body as RLP lists, typed transactions (EIP-2718)
+ *      as the byte string `type || rlp(payload)`. The encodings can be checked against the node:
+ *      keccak256 of an encoded header or transaction must equal its RPC `hash`.
+ */
+
+import { ethers, type RlpStructuredDataish } from "ethers";
+
+export interface RpcAccessListEntry {
+    address: string;
+    storageKeys: string[];
+}
+
+export interface RpcAuthorization {
+    chainId: string;
+    address: string;
+    nonce: string;
+    yParity?: string;
+    v?: string;
+    r: string;
+    s: string;
+}
+
+/** Transaction object as returned by eth_getTransactionByHash */
+export interface RpcTransaction {
+    hash: string;
+    type?: string;
+    chainId?: string;
+    nonce: string;
+    gasPrice?: string;
+    maxPriorityFeePerGas?: string;
+    maxFeePerGas?: string;
+    maxFeePerBlobGas?: string;
+    gas: string;
+    to: string | null;
+    value: string;
+    input: string;
+    accessList?: RpcAccessListEntry[];
+    blobVersionedHashes?: string[];
+    authorizationList?: RpcAuthorization[];
+    v?: string;
+    yParity?: string;
+    r: string;
+    s: string;
+}
+
+export interface RpcWithdrawal {
+    index: string;
+    validatorIndex: string;
+    address: string;
+    amount: string;
+}
+
+/** Block object as returned by eth_getBlockByNumber */
+export interface RpcBlock {
+    hash: string;
+    number: string;
+    parentHash: string;
+    sha3Uncles: string;
+    miner: string;
+    stateRoot: string;
+    transactionsRoot: string;
+    receiptsRoot: string;
+    logsBloom: string;
+    difficulty: string;
+    gasLimit: string;
+    gasUsed: string;
+    timestamp: string;
+    extraData: string;
+    mixHash: string;
+    nonce: string;
+    baseFeePerGas?: string;
+    withdrawalsRoot?: string;
+    blobGasUsed?: string;
+    excessBlobGas?: string;
+    parentBeaconBlockRoot?: string;
+    requestsHash?: string;
+    transactions: (RpcTransaction | string)[];
+    uncles: string[];
+    withdrawals?: RpcWithdrawal[];
+}
+
+/** Header fields added by later forks, in header order; each is present from its fork on */
+const OPTIONAL_HEADER_FIELDS = [
+    ["baseFeePerGas", "quantity"], // London
+    ["withdrawalsRoot", "bytes"], // Shanghai
+    ["blobGasUsed", "quantity"], // Cancun
+    ["excessBlobGas", "quantity"], // Cancun
+    ["parentBeaconBlockRoot", "bytes"], // Cancun
+    ["requestsHash", "bytes"], // Prague
+] as const;
+
+/** Integer as minimal big-endian bytes (zero is the empty string) */
+function quantity(value: string | undefined): Uint8Array {
+    return ethers.toBeArray(BigInt(value ?? 0));
+}
+
+function accessList(entries: RpcAccessListEntry[] | undefined): RlpStructuredDataish {
+    return (entries ?? []).map((entry) => [entry.address, entry.storageKeys]);
+}
+
+function authorizationList(entries: RpcAuthorization[] | undefined): RlpStructuredDataish {
+    return (entries ?? []).map((auth) => [
+        quantity(auth.chainId),
+        auth.address,
+        quantity(auth.nonce),
+        quantity(auth.yParity ?? auth.v),
+        quantity(auth.r),
+        quantity(auth.s),
+    ]);
+}
+
+function headerFields(block: RpcBlock): RlpStructuredDataish[] {
+    const fields: RlpStructuredDataish[] = [
+        block.parentHash,
+        block.sha3Uncles,
+        block.miner,
+        block.stateRoot,
+        block.transactionsRoot,
+        block.receiptsRoot,
+        block.logsBloom,
+        quantity(block.difficulty),
+        quantity(block.number),
+        quantity(block.gasLimit),
+        quantity(block.gasUsed),
+        quantity(block.timestamp),
+        block.extraData,
+        block.mixHash,
+        block.nonce,
+    ];
+    for (const [name, kind] of OPTIONAL_HEADER_FIELDS) {
+        const value = block[name];
+        if (value === undefined || value === null) {
+            break;
+        }
+        fields.push(kind === "quantity" ? quantity(value) : value);
+    }
+    return fields;
+}
+
+/**
+ * @notice RLP-encoded block header; its keccak256 is the block hash
+ */
+export function encodeHeader(block: RpcBlock): string {
+    return ethers.encodeRlp(headerFields(block));
+}
+
+/**
+ * @notice A transaction as it appears in the block body: an RLP list for legacy transactions,
+ *         the byte string `type || rlp(payload)` for typed ones
+ */
+function transactionItem(tx: RpcTransaction): RlpStructuredDataish {
+    const type = Number(tx.type ?? 0);
+    const to = tx.to ?? "0x";
+    const signature = [quantity(tx.yParity ?? tx.v), quantity(tx.r), quantity(tx.s)];
+    let payload: RlpStructuredDataish[];
+    switch (type) {
+        case 0:
+            return [
+                quantity(tx.nonce),
+                quantity(tx.gasPrice),
+                quantity(tx.gas),
+                to,
+                quantity(tx.value),
+                tx.input,
+                quantity(tx.v),
+                quantity(tx.r),
+                quantity(tx.s),
+            ];
+        case 1: // EIP-2930
+            payload = [
+                quantity(tx.chainId),
+                quantity(tx.nonce),
+                quantity(tx.gasPrice),
+                quantity(tx.gas),
+                to,
+                quantity(tx.value),
+                tx.input,
+                accessList(tx.accessList),
+            ];
+            break;
+        case 2: // EIP-1559
+            payload = [
+                quantity(tx.chainId),
+                quantity(tx.nonce),
+                quantity(tx.maxPriorityFeePerGas),
+                quantity(tx.maxFeePerGas),
+                quantity(tx.gas),
+                to,
+                quantity(tx.value),
+                tx.input,
+                accessList(tx.accessList),
+            ];
+            break;
+        case 3: // EIP-4844, without the blob sidecar
+            payload = [
+                quantity(tx.chainId),
+                quantity(tx.nonce),
+                quantity(tx.maxPriorityFeePerGas),
+                quantity(tx.maxFeePerGas),
+                quantity(tx.gas),
+                to,
+                quantity(tx.value),
+                tx.input,
+                accessList(tx.accessList),
+                quantity(tx.maxFeePerBlobGas),
+                tx.blobVersionedHashes ?? [],
+            ];
+            break;
+        case 4: // EIP-7702
+            payload = [
+                quantity(tx.chainId),
+                quantity(tx.nonce),
+                quantity(tx.maxPriorityFeePerGas),
+                quantity(tx.maxFeePerGas),
+                quantity(tx.gas),
+                to,
+                quantity(tx.value),
+                tx.input,
+                accessList(tx.accessList),
+                authorizationList(tx.authorizationList),
+            ];
+            break;
+        default:
+            throw new Error(`transaction ${tx.hash} has unsupported type ${tx.type}`);
+    }
+    return ethers.concat([ethers.toBeHex(type, 1), ethers.encodeRlp([...payload, ...signature])]);
+}
+
+/**
+ * @notice Canonical transaction encoding; its keccak256 is the transaction hash
+ */
+export function encodeTransaction(tx: RpcTransaction): string {
+    const item = transactionItem(tx);
+    return typeof item === "string" ? item : ethers.encodeRlp(item);
+}
+
+/**
+ * @notice RLP-encode a full block as EIP-7934 measures it
+ * @param block Block with full transaction objects
+ * @param ommers Full headers of `block.uncles`, in order
+ */
+export function encodeBlock(block: RpcBlock, ommers: RpcBlock[] = []): string {
+    const transactions = block.transactions.map((tx) => {
+        if (typeof tx === "string") {
+            throw new Error(`block ${block.number} lists transaction ${tx} by hash only`);
+        }
+        return transactionItem(tx);
+    });
+    const body: RlpStructuredDataish[] = [headerFields(block), transactions, ommers.map(headerFields)];
+    if (block.withdrawals) {
+        body.push(
+            block.withdrawals.map((w) => [quantity(w.index), quantity(w.validatorIndex), w.address, quantity(w.amount)])
+        );
+    }
+    return ethers.encodeRlp(body);
+}
@@ -0,0 +1,226 @@
+/**
+ * @file bls12381.ts
+ * @notice Reference BLS12-381 arithmetic and the EIP-2537 precompile encodings
+ * @dev Affine double-and-add over bigints: slow, but enough to compute expected precompile
+ *      outputs for a handful of points. G1 lives over Fp, G2 over Fp2 = Fp[i] / (i^2 + 1).
+ *      Precompile field elements are 64 bytes: 16 zero bytes, then the 48-byte big-endian value.
+ */
+
+import { ethers } from "ethers";
+
+/** Base field modulus */
+export const BLS_P = BigInt(
+    "0x1a0111ea397fe69a4b1ba7b6434bacd764774b84f38512bf6730d2a0f6b0f6241eabfffeb153ffffb9feffffffffaaab"
+);
+
+/** Order of G1 and G2 */
+export const BLS_R = 0x73eda753299d7d483339d80809a1d80553bda402fffe5bfeffffffff00000001n;
+
+/** EIP-2537 precompile addresses */
+export const BLS_PRECOMPILES = {
+    G1ADD: "0x000000000000000000000000000000000000000b",
+    G1MSM: "0x000000000000000000000000000000000000000c",
+    G2ADD: "0x000000000000000000000000000000000000000d",
+    G2MSM: "0x000000000000000000000000000000000000000e",
+    PAIRING: "0x000000000000000000000000000000000000000f",
+    MAP_FP_TO_G1: "0x0000000000000000000000000000000000000010",
+    MAP_FP2_TO_G2: "0x0000000000000000000000000000000000000011",
+} as const;
+
+/** EIP-2537 prices; MSM prices are for a single pair, where no discount applies */
+export const BLS_GAS = {
+    G1ADD: 375n,
+    G1MSM: 12000n,
+    G2ADD: 600n,
+    G2MSM: 22500n,
+    MAP_FP_TO_G1: 5500n,
+    MAP_FP2_TO_G2: 23800n,
+} as const;
+
+/** Pairing check price for `pairs` (G1, G2) pairs */
+export const blsPairingGas = (pairs: number) => 32600n * BigInt(pairs) + 37700n;
+
+export type Fp2 = readonly [bigint, bigint];
+
+interface Field<T> {
+    add(a: T, b: T): T;
+    sub(a: T, b: T): T;
+    mul(a: T, b: T): T;
+    inv(a: T): T;
+    eq(a: T, b: T): boolean;
+    isZero(a: T): boolean;
+    small(n: bigint): T;
+}
+
+const mod = (a: bigint) => ((a % BLS_P) + BLS_P) % BLS_P;
+
+function invFp(a: bigint): bigint {
+    let [low, high, lm, hm] = [mod(a), BLS_P, 1n, 0n];
+    if (low === 0n) {
+        throw new Error("inverse of zero");
+    }
+    while (low > 1n) {
+        const q = high / low;
+        [low, high, lm, hm] = [high - q * low, low, hm - q * lm, lm];
+    }
+    return mod(lm);
+}
+
+const FP: Field<bigint> = {
+    add: (a, b) => mod(a + b),
+    sub: (a, b) => mod(a - b),
+    mul: (a, b) => mod(a * b),
+    inv: invFp,
+    eq: (a, b) => mod(a) === mod(b),
+    isZero: (a) => mod(a) === 0n,
+    small: (n) => mod(n),
+};
+
+const FP2: Field<Fp2> = {
+    add: (a, b) => [mod(a[0] + b[0]), mod(a[1] + b[1])],
+    sub: (a, b) => [mod(a[0] - b[0]), mod(a[1] - b[1])],
+    mul: (a, b) => [mod(a[0] * b[0] - a[1] * b[1]), mod(a[0] * b[1] + a[1] * b[0])],
+    inv: (a) => {
+        const norm = invFp(a[0] * a[0] + a[1] * a[1]);
+        return [mod(a[0] * norm), mod(-a[1] * norm)];
+    },
+    eq: (a, b) => mod(a[0]) === mod(b[0]) && mod(a[1]) === mod(b[1]),
+    isZero: (a) => mod(a[0]) === 0n && mod(a[1]) === 0n,
+    small: (n) => [mod(n), 0n],
+};
+
+/** Affine point; null is the point at infinity */
+export type Point<T> = { x: T; y: T } | null;
+export type G1Point = Point<bigint>;
+export type G2Point = Point<Fp2>;
+
+/** Short Weierstrass curve y^2 = x^3 + b over field F */
+class Curve<T> {
+    constructor(
+        private readonly f: Field<T>,
+        private readonly b: T
+    ) {}
+
+    isOnCurve(p: Point<T>): boolean {
+        if (p === null) {
+            return true;
+        }
+        const { f } = this;
+        return f.eq(f.mul(p.y, p.y), f.add(f.mul(f.mul(p.x, p.x), p.x), this.b));
+    }
+
+    neg(p: Point<T>): Point<T> {
+        return p === null ? null : { x: p.x, y: this.f.sub(this.f.small(0n), p.y) };
+    }
+
+    add(p: Point<T>, q: Point<T>): Point<T> {
+        if (p === null) {
+            return q;
+        }
+        if (q === null) {
+            return p;
+        }
+        const { f } = this;
+        let slope: T;
+        if (f.eq(p.x, q.x)) {
+            if (!f.eq(p.y, q.y) || f.isZero(p.y)) {
+                return null;
+            }
+            const xx = f.mul(p.x, p.x);
+            slope = f.mul(f.add(f.add(xx, xx), xx), f.inv(f.add(p.y, p.y)));
+        } else {
+            slope = f.mul(f.sub(q.y, p.y), f.inv(f.sub(q.x, p.x)));
+        }
+        const x = f.sub(f.sub(f.mul(slope, slope), p.x), q.x);
+        return { x, y: f.sub(f.mul(slope, f.sub(p.x, x)), p.y) };
+    }
+
+    mul(p: Point<T>, scalar: bigint): Point<T> {
+        let result: Point<T> = null;
+        for (let addend = p; scalar > 0n; scalar >>= 1n, addend = this.add(addend, addend)) {
+            if (scalar & 1n) {
+                result = this.add(result, addend);
+            }
+        }
+        return result;
+    }
+
+    /** On the curve and in the order-r subgroup */
+    isInSubgroup(p: Point<T>): boolean {
+        return this.isOnCurve(p) && this.mul(p, BLS_R) === null;
+    }
+
+    eq(p: Point<T>, q: Point<T>): boolean {
+        if (p === null || q === null) {
+            return p === q;
+        }
+        return this.f.eq(p.x, q.x) && this.f.eq(p.y, q.y);
+    }
+}
+
+export const G1 = new Curve<bigint>(FP, 4n);
+export const G2 = new Curve<Fp2>(FP2, [4n, 4n]);
+
+export const G1_GENERATOR: G1Point = {
+    x: BigInt(
+        "0x17f1d3a73197d7942695638c4fa9ac0fc3688c4f9774b905a14e3a3f171bac586c55e83ff97a1aeffb3af00adb22c6bb"
+    ),
+    y: BigInt(
+        "0x08b3f481e3aaa0f1a09e30ed741d8ae4fcf5e095d5d00af600db18cb2c04b3edd03cc744a2888ae40caa232946c5e7e1"
+    ),
+};
+
+export const G2_GENERATOR: G2Point = {
+    x: [
+        BigInt(
+            "0x024aa2b2f08f0a91260805272dc51051c6e47ad4fa403b02b4510b647ae3d1770bac0326a805bbefd48056c8c121bdb8"
+        ),
+        BigInt(
+            "0x13e02b6052719f607dacd3a088274f65596bd0d09920b61ab5da61bbdc7f5049334cf11213945d57e5ac7d055d042b7e"
+        ),
+    ],
+    y: [
+        BigInt(
+            "0x0ce5d527727d6e118cc9cdc6da2e351aadfd9baa8cbdd3a76d429a695160d12c923ac9cc3baca289e193548608b82801"
+        ),
+        BigInt(
+            "0x0606c4a02ea734cc32acd2b02bc28b99cb3e287e85a763af267492ab572e99ab3f370d275cec1da1aaa9075ff05f79be"
+        ),
+    ],
+};
+
+/** 64-byte field element, as taken by MAP_FP_TO_G1 */
+export const encodeFp = (value: bigint) => ethers.toBeHex(value, 64);
+
+/** 128-byte Fp2 element c0 || c1, as taken by MAP_FP2_TO_G2 */
+export const encodeFp2 = (value: Fp2) => ethers.concat([encodeFp(value[0]), encodeFp(value[1])]);
+
+/** 128-byte G1 encoding; all zeros for infinity */
+export const encodeG1 = (p: G1Point) =>
+    p === null ? ethers.zeroPadValue("0x", 128) : ethers.concat([encodeFp(p.x), encodeFp(p.y)]);
+
+/** 256-byte G2 encoding: x.c0 || x.c1 || y.c0 || y.c1; all zeros for infinity */
+export const encodeG2 = (p: G2Point) =>
+    p === null ? ethers.zeroPadValue("0x", 256) : ethers.concat([encodeFp2(p.x), encodeFp2(p.y)]);
+
+const fpAt = (data: string, offset: number) => BigInt(ethers.dataSlice(data, offset, offset + 64));
+
+export function decodeG1(data: string): G1Point {
+    if (ethers.dataLength(data) !== 128) {
+        throw new Error(`G1 point must be 128 bytes, got ${ethers.dataLength(data)}`);
+    }
+    const [x, y] = [fpAt(data, 0), fpAt(data, 64)];
+    return x === 0n && y === 0n ? null : { x, y };
+}
+
+export function decodeG2(data: string): G2Point {
+    if (ethers.dataLength(data) !== 256) {
+        throw new Error(`G2 point must be 256 bytes, got ${ethers.dataLength(data)}`);
+    }
+    const x: Fp2 = [fpAt(data, 0), fpAt(data, 64)];
+    const y: Fp2 = [fpAt(data, 128), fpAt(data, 192)];
+    return FP2.isZero(x) && FP2.isZero(y) ? null : { x, y };
+}
+
+/** 32-byte MSM scalar */
+export const encodeScalar = (scalar: bigint) => ethers.toBeHex(scalar, 32);
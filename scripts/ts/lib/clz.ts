@@ -0,0 +1,35 @@
+/**
+ * @file clz.ts
+ * @notice Reference CLZ (EIP-7939) and the fuzz inputs it is compared on
+ */
+
+import type { Rng } from "./fuzz.js";
+
+const UINT256_MAX = (1n << 256n) - 1n;
+
+/**
+ * @notice Number of leading zero bits of a 256-bit word; 256 for zero
+ */
+export function clz(value: bigint): number {
+    return value === 0n ? 256 : 256 - value.toString(2).length;
+}
+
+/**
+ * @notice `count` distinct uint256 values, the same for the same seed
+ * @dev Edge values first: 0, every power of two with its neighbours, and 2^256 - 1. Then random
+ *      values cycling through every bit length from 1 to 256, so each CLZ result is covered.
+ */
+export function clzFuzzValues(rng: Rng, count: number): bigint[] {
+    const values = new Set<bigint>([0n, UINT256_MAX]);
+    for (let bit = 0n; bit < 256n; bit++) {
+        const power = 1n << bit;
+        values.add(power - 1n);
+        values.add(power);
+        values.add(power + 1n);
+    }
+    for (let length = 1; values.size < count; length = (length % 256) + 1) {
+        const top = 1n << BigInt(length - 1);
+        values.add(top | rng.bits(length - 1));
+    }
+    return [...values].slice(0, count);
+}
@@ -0,0 +1,209 @@
+/**
+ * @file deployments.ts
+ * @notice Deploy-once registry of the probe contracts, one JSON file per chain ID
+ * @dev deployments/<chainId>.json records where each contract lives and the keccak256 of its
+ *      runtime code. A recorded deployment is reused while the code at its address hashes to the
+ *      artifact's deployedBytecode; when the contract changed it is deployed again and the entry
+ *      replaced. With --create2 contracts go through the deterministic deployment proxy, so the
+ *      same artifact and salt give the same address on every network. --redeploy ignores the
+ *      registry (the new deployments are still recorded); it has no effect with --create2, whose
+ *      address is fixed by the artifact and salt.
+ */
+
+import { ethers } from "ethers";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import { z } from "zod";
+import { getBytecode, getDeployedBytecode, loadArtifact, REPO_ROOT } from "./artifacts.js";
+import { ConfigError } from "./env.js";
+
+export const DEPLOYMENTS_DIR = join(REPO_ROOT, "deployments");
+
+/** Deterministic deployment proxy (github.com/Arachnid/deterministic-deployment-proxy) */
+export const CREATE2_FACTORY = "0x4e59b44847b379578588920cA78FbF26c0B4956C";
+
+/** Salt used unless --create2-salt is given */
+export const DEFAULT_CREATE2_SALT = ethers.id("etherlink-osaka-probes");
+
+const EntrySchema = z
+    .object({
+        address: z.string().regex(/^0x[0-9a-fA-F]{40}$/, { message: "address must be 20 bytes of hex" }),
+        codeHash: z.string().regex(/^0x[0-9a-f]{64}$/, { message: "codeHash must be a keccak256 hash" }),
+        method: z.enum(["create", "create2"]),
+        salt: z.string().nullable().default(null),
+        txHash: z.string().nullable().default(null),
+        deployedAt: z.string(),
+    })
+    .strict();
+
+const RegistrySchema = z
+    .object({
+        chainId: z.number().int().positive(),
+        contracts: z.record(EntrySchema).default({}),
+    })
+    .strict();
+
+export type DeploymentEntry = z.infer<typeof EntrySchema>;
+
+export interface DeploymentOptions {
+    create2: boolean;
+    /** 32-byte CREATE2 salt */
+    salt: string;
+    /** Deploy even when the registry has a matching deployment */
+    redeploy: boolean;
+}
+
+export const DEFAULT_DEPLOYMENT_OPTIONS: DeploymentOptions = {
+    create2: false,
+    salt: DEFAULT_CREATE2_SALT,
+    redeploy: false,
+};
+
+export const registryPath = (chainId: bigint) => join(DEPLOYMENTS_DIR, `${chainId}.json`);
+
+/**
+ * @notice Recorded deployments on `chainId`; empty when the chain has no registry file yet
+ */
+export function loadRegistry(chainId: bigint): Record<string, DeploymentEntry> {
+    const path = registryPath(chainId);
+    if (!existsSync(path)) {
+        return {};
+    }
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (error: any) {
+        throw new ConfigError(`cannot read deployment registry ${path}: ${error.message}`);
+    }
+    const parsed = RegistrySchema.safeParse(raw);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+        throw new ConfigError(`invalid deployment registry ${path}: ${issues.join("; ")}`);
+    }
+    if (BigInt(parsed.data.chainId) !== chainId) {
+        throw new ConfigError(`deployment registry ${path} is for chain ${parsed.data.chainId}, not ${chainId}`);
+    }
+    return parsed.data.contracts;
+}
+
+/**
+ * @notice Record `entry` for `contractName`, keeping the other entries
+ * @dev Reads and writes synchronously, so concurrent deployments in one process do not lose entries.
+ */
+function recordDeployment(chainId: bigint, contractName: string, entry: DeploymentEntry): void {
+    const contracts = { ...loadRegistry(chainId), [contractName]: entry };
+    const sorted = Object.fromEntries(Object.entries(contracts).sort(([a], [b]) => a.localeCompare(b)));
+    mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+    const registry = { chainId: Number(chainId), contracts: sorted };
+    writeFileSync(registryPath(chainId), `${JSON.stringify(registry, null, 4)}\n`);
+}
+
+/**
+ * @notice Deployment options from `--create2`, `--create2-salt <text or 0x bytes32>` and `--redeploy`
+ */
+export function deploymentOptionsFromArgv(argv: string[]): DeploymentOptions {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            create2: { type: "boolean", default: false },
+            "create2-salt": { type: "string" },
+            redeploy: { type: "boolean", default: false },
+        },
+        strict: false,
+    });
+    const salt = values["create2-salt"];
+    if (salt !== undefined && typeof salt !== "string") {
+        throw new ConfigError("--create2-salt requires a value");
+    }
+    return {
+        create2: values.create2 === true || salt !== undefined,
+        // A 0x-prefixed 32-byte value is used as is; anything else is hashed
+        salt: salt === undefined ? DEFAULT_CREATE2_SALT : ethers.isHexString(salt, 32) ? salt : ethers.id(salt),
+        redeploy: values.redeploy === true,
+    };
+}
+
+async function deployWithCreate2(
+    contractName: string,
+    runner: ethers.Signer,
+    initcode: string,
+    salt: string
+): Promise<{ address: string; txHash: string | null }> {
+    const provider = runner.provider!;
+    const address = ethers.getCreate2Address(CREATE2_FACTORY, salt, ethers.keccak256(initcode));
+    if ((await provider.getCode(address)) !== "0x") {
+        // Already deployed from the same initcode and salt, possibly by someone else
+        console.log(`✓ ${contractName} already at its CREATE2 address ${address}`);
+        return { address, txHash: null };
+    }
+    if ((await provider.getCode(CREATE2_FACTORY)) === "0x") {
+        throw new Error(
+            `no CREATE2 factory at ${CREATE2_FACTORY} on this chain; deploy the deterministic deployment proxy ` +
+                "first or run without --create2"
+        );
+    }
+    console.log(`Deploying ${contractName} with CREATE2...`);
+    const tx = await runner.sendTransaction({ to: CREATE2_FACTORY, data: ethers.concat([salt, initcode]) });
+    const receipt = await tx.wait();
+    if (receipt?.status !== 1 || (await provider.getCode(address)) === "0x") {
+        throw new Error(`CREATE2 deployment of ${contractName} failed (tx ${tx.hash})`);
+    }
+    console.log(`✓ ${contractName} deployed at: ${address}`);
+    return { address, txHash: tx.hash };
+}
+
+/**
+ * @notice Contract `contractName` on the runner's chain: the recorded deployment when its code
+ *         still matches the artifact, otherwise a new deployment, which is then recorded
+ * @return The contract, typed as C when a binding from scripts/ts/bindings names it
+ */
+export async function deployOrReuse<C = ethers.BaseContract>(
+    contractName: string,
+    runner: ethers.Signer,
+    options: DeploymentOptions = DEFAULT_DEPLOYMENT_OPTIONS
+): Promise<C> {
+    const provider = runner.provider!;
+    const artifact = loadArtifact(contractName);
+    const codeHash = ethers.keccak256(getDeployedBytecode(artifact));
+    const { chainId } = await provider.getNetwork();
+    const attach = (address: string) => new ethers.Contract(address, artifact.abi, runner) as unknown as C;
+
+    // CREATE2 needs no lookup: the address follows from the artifact, and existing code there is reused
+    const recorded = loadRegistry(chainId)[contractName];
+    if (recorded && !options.redeploy && !options.create2) {
+        const onChain = ethers.keccak256(await provider.getCode(recorded.address));
+        if (onChain === codeHash) {
+            console.log(`✓ Reusing ${contractName} at ${recorded.address} (${registryPath(chainId)})`);
+            return attach(recorded.address);
+        }
+        console.warn(`⚠ ${contractName} at ${recorded.address} does not match the artifact; redeploying`);
+    }
+
+    let address: string;
+    let txHash: string | null;
+    if (options.create2) {
+        ({ address, txHash } = await deployWithCreate2(contractName, runner, getBytecode(artifact), options.salt));
+        const onChain = ethers.keccak256(await provider.getCode(address));
+        if (onChain !== codeHash) {
+            throw new Error(`code at ${address} does not match the ${contractName} artifact`);
+        }
+    } else {
+        console.log(`Deploying ${contractName} contract...`);
+        const contract = await new ethers.ContractFactory(artifact.abi, getBytecode(artifact), runner).deploy();
+        await contract.waitForDeployment();
+        address = await contract.getAddress();
+        txHash = contract.deploymentTransaction()?.hash ?? null;
+        console.log(`✓ ${contractName} deployed at: ${address}`);
+    }
+
+    recordDeployment(chainId, contractName, {
+        address,
+        codeHash,
+        method: options.create2 ? "create2" : "create",
+        salt: options.create2 ? options.salt : null,
+        txHash,
+        deployedAt: new Date().toISOString(),
+    });
+    return attach(address);
+}
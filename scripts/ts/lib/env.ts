@@ -0,0 +1,75 @@
+/**
+ * @file env.ts
+ * @notice Typed environment configuration shared by every scripts/ts entry point
+ */
+
+import * as dotenv from "dotenv";
+import { z } from "zod";
+import type { NetworkProfile } from "./networks.js";
+
+/** First Anvil dev account; used when PRIVATE_KEY is not set */
+export const ANVIL_DEFAULT_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const EnvSchema = z.object({
+    ETH_RPC_URL: z.string({ required_error: "ETH_RPC_URL environment variable not set" }).url(),
+    WS_RPC_URL: z.string().url().optional(),
+    PRIVATE_KEY: z
+        .string()
+        .regex(/^(0x)?[0-9a-fA-F]{64}$/, { message: "PRIVATE_KEY must be a 32-byte hex string" })
+        .optional(),
+    OSAKA_FORK_BLOCK: z
+        .string()
+        .regex(/^\d+$/, { message: "OSAKA_FORK_BLOCK must be a block number" })
+        .optional(),
+});
+
+export interface EnvConfig {
+    rpcUrl: string;
+    /** WS_RPC_URL, or ETH_RPC_URL with its scheme switched to ws(s) */
+    wsUrl: string;
+    privateKey: string;
+    /** True when PRIVATE_KEY was not set and the Anvil dev key is used */
+    usingDefaultKey: boolean;
+    osakaForkBlock: bigint | null;
+    /** Profile selected with --network, if any */
+    network: NetworkProfile | null;
+}
+
+/** Thrown when the environment is missing or malformed */
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ConfigError";
+    }
+}
+
+/**
+ * @notice Load .env and validate the variables used by the test scripts
+ * @param source Variables to read (defaults to process.env after loading .env)
+ * @param network Selected profile; its URLs take precedence over ETH_RPC_URL / WS_RPC_URL
+ */
+export function loadEnv(source: NodeJS.ProcessEnv = process.env, network: NetworkProfile | null = null): EnvConfig {
+    dotenv.config();
+    // Treat empty strings as unset so `FOO=` in .env behaves like a missing variable
+    const cleaned: Record<string, string | undefined> = Object.fromEntries(
+        Object.entries(source).filter(([, value]) => value !== "")
+    );
+    if (network) {
+        cleaned.ETH_RPC_URL = network.rpcUrl;
+        cleaned.WS_RPC_URL = network.wsUrl ?? undefined;
+    }
+    const parsed = EnvSchema.safeParse(cleaned);
+    if (!parsed.success) {
+        throw new ConfigError(parsed.error.issues.map((issue) => issue.message).join("; "));
+    }
+    const env = parsed.data;
+    return {
+        rpcUrl: env.ETH_RPC_URL,
+        wsUrl: env.WS_RPC_URL ?? env.ETH_RPC_URL.replace(/^http/, "ws"),
+        privateKey: env.PRIVATE_KEY ?? ANVIL_DEFAULT_PRIVATE_KEY,
+        usingDefaultKey: env.PRIVATE_KEY === undefined,
+        osakaForkBlock:
+            env.OSAKA_FORK_BLOCK !== undefined ? BigInt(env.OSAKA_FORK_BLOCK) : (network?.osaka.activationBlock ?? null),
+        network,
+    };
+}
@@ -0,0 +1,332 @@
+/**
+ * @file eth-config.ts
+ * @notice Typed validators for the eth_config RPC response (EIP-7910)
+ * @dev Two dialects are accepted:
+ *        - "eip7910": the canonical `current` / `next` / `last` fork objects from the EIP
+ *        - "legacy":  the flat layout served by earlier Etherlink nodes (`fork`, `osaka`, `gas`, ...)
+ *      Kept in step with docs/fixtures/eth_config.expected.json: every property, required field
+ *      and hex pattern declared in the fixture's definitions has a matching zod rule here.
+ */
+
+import { z } from "zod";
+
+/** Hex-encoded quantity, e.g. "0x1000000" */
+const HEX_NUMBER = /^0x[0-9a-fA-F]+$/;
+/** 20-byte address */
+const HEX_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+/** 4-byte EIP-2124 fork hash */
+const HEX_FORK_ID = /^0x[0-9a-fA-F]{8}$/;
+
+const hexNumber = (description: string) =>
+    z.string().regex(HEX_NUMBER, { message: `non-hex number string (${description})` });
+
+const address = (description: string) =>
+    z.string().regex(HEX_ADDRESS, { message: `not a 20-byte hex address (${description})` });
+
+export const LegacyEthConfigSchema = z
+    .object({
+        chainId: hexNumber("chain ID"),
+        networkId: hexNumber("network ID").optional(),
+        fork: z.string(),
+        forkVersion: z.string().optional(),
+        osaka: z
+            .object({
+                activationBlock: hexNumber("activation block").nullable().optional(),
+                activationTimestamp: hexNumber("activation timestamp").nullable().optional(),
+            })
+            .strict()
+            .optional(),
+        gas: z
+            .object({
+                maxTransactionGas: hexNumber("max transaction gas").optional(),
+                maxBlockGas: hexNumber("max block gas").optional(),
+            })
+            .strict()
+            .optional(),
+        block: z
+            .object({
+                maxRlpSize: hexNumber("max RLP size").optional(),
+            })
+            .strict()
+            .optional(),
+        precompiles: z
+            .object({
+                secp256r1: hexNumber("precompile address").optional(),
+            })
+            .strict()
+            .optional(),
+    })
+    .strict();
+
+export const ForkConfigSchema = z
+    .object({
+        activationTime: z.number().int().nonnegative(),
+        blobSchedule: z
+            .object({
+                baseFeeUpdateFraction: z.number().int().nonnegative(),
+                max: z.number().int().nonnegative(),
+                target: z.number().int().nonnegative(),
+            })
+            .strict()
+            .nullable(),
+        chainId: hexNumber("chain ID"),
+        forkId: z.string().regex(HEX_FORK_ID, { message: "not a 4-byte hex fork ID" }),
+        precompiles: z.record(address("precompile address")),
+        systemContracts: z.record(address("system contract address")),
+    })
+    .strict();
+
+export const Eip7910ConfigSchema = z
+    .object({
+        current: ForkConfigSchema,
+        next: ForkConfigSchema.nullable(),
+        last: ForkConfigSchema.nullable(),
+    })
+    .strict();
+
+export type LegacyEthConfig = z.infer<typeof LegacyEthConfigSchema>;
+export type ForkConfig = z.infer<typeof ForkConfigSchema>;
+export type Eip7910Config = z.infer<typeof Eip7910ConfigSchema>;
+
+export type EthConfigDialect = "eip7910" | "legacy";
+
+export type EthConfig =
+    | { dialect: "eip7910"; config: Eip7910Config }
+    | { dialect: "legacy"; config: LegacyEthConfig };
+
+/**
+ * @notice Precompiles expected in `current.precompiles` once Osaka is active, keyed by EIP-7910 name
+ * @dev Prague set plus P256VERIFY (EIP-7951)
+ */
+export const OSAKA_PRECOMPILES: Readonly<Record<string, string>> = {
+    ECREC: "0x0000000000000000000000000000000000000001",
+    SHA256: "0x0000000000000000000000000000000000000002",
+    RIPEMD160: "0x0000000000000000000000000000000000000003",
+    ID: "0x0000000000000000000000000000000000000004",
+    MODEXP: "0x0000000000000000000000000000000000000005",
+    BN254_ADD: "0x0000000000000000000000000000000000000006",
+    BN254_MUL: "0x0000000000000000000000000000000000000007",
+    BN254_PAIRING: "0x0000000000000000000000000000000000000008",
+    BLAKE2F: "0x0000000000000000000000000000000000000009",
+    KZG_POINT_EVALUATION: "0x000000000000000000000000000000000000000a",
+    BLS12_G1ADD: "0x000000000000000000000000000000000000000b",
+    BLS12_G1MSM: "0x000000000000000000000000000000000000000c",
+    BLS12_G2ADD: "0x000000000000000000000000000000000000000d",
+    BLS12_G2MSM: "0x000000000000000000000000000000000000000e",
+    BLS12_PAIRING_CHECK: "0x000000000000000000000000000000000000000f",
+    BLS12_MAP_FP_TO_G1: "0x0000000000000000000000000000000000000010",
+    BLS12_MAP_FP2_TO_G2: "0x0000000000000000000000000000000000000011",
+    P256VERIFY: "0x0000000000000000000000000000000000000100",
+};
+
+export type ValidationIssueKind = "missing" | "type" | "unexpected" | "format";
+
+export interface ValidationIssue {
+    kind: ValidationIssueKind;
+    /** JSON path of the offending value, e.g. "$.current.forkId" */
+    path: string;
+    message: string;
+}
+
+export type ValidationResult =
+    | ({ ok: true; issues: [] } & EthConfig)
+    | { ok: false; dialect: EthConfigDialect; config: null; issues: ValidationIssue[] };
+
+function formatPath(path: (string | number)[]): string {
+    return path.reduce<string>(
+        (acc, segment) => (typeof segment === "number" ? `${acc}[${segment}]` : `${acc}.${segment}`),
+        "$"
+    );
+}
+
+function toIssues(error: z.ZodError): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    for (const issue of error.issues) {
+        switch (issue.code) {
+            case z.ZodIssueCode.invalid_type:
+                if (issue.received === "undefined") {
+                    issues.push({ kind: "missing", path: formatPath(issue.path), message: "required field is missing" });
+                } else {
+                    issues.push({
+                        kind: "type",
+                        path: formatPath(issue.path),
+                        message: `expected ${issue.expected}, received ${issue.received}`,
+                    });
+                }
+                break;
+            case z.ZodIssueCode.unrecognized_keys:
+                for (const key of issue.keys) {
+                    issues.push({
+                        kind: "unexpected",
+                        path: formatPath([...issue.path, key]),
+                        message: "field is not declared in the expected schema",
+                    });
+                }
+                break;
+            case z.ZodIssueCode.invalid_string:
+                issues.push({ kind: "format", path: formatPath(issue.path), message: issue.message });
+                break;
+            default:
+                issues.push({ kind: "type", path: formatPath(issue.path), message: issue.message });
+        }
+    }
+    return issues;
+}
+
+/** Subset of JSON Schema (draft-07) used by docs/fixtures/eth_config.expected.json */
+export interface JsonSchemaNode {
+    type?: string | string[];
+    properties?: Record<string, JsonSchemaNode>;
+    required?: string[];
+    pattern?: string;
+    additionalProperties?: boolean | JsonSchemaNode;
+    anyOf?: JsonSchemaNode[];
+    oneOf?: JsonSchemaNode[];
+    definitions?: Record<string, JsonSchemaNode>;
+    $ref?: string;
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+    while (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+        schema = schema.unwrap();
+    }
+    return schema;
+}
+
+/** Follow local "#/definitions/..." references and drop the `null` branch of an anyOf */
+function resolve(node: JsonSchemaNode, root: JsonSchemaNode): JsonSchemaNode {
+    if (node.$ref) {
+        const name = node.$ref.replace(/^#\/definitions\//, "");
+        const target = root.definitions?.[name];
+        if (!target) {
+            throw new Error(`Unresolved $ref ${node.$ref} in fixture schema`);
+        }
+        return resolve(target, root);
+    }
+    if (node.anyOf) {
+        const branches = node.anyOf.filter((branch) => branch.type !== "null");
+        if (branches.length === 1) {
+            return resolve(branches[0], root);
+        }
+    }
+    return node;
+}
+
+function compareNode(
+    node: JsonSchemaNode,
+    schema: z.ZodTypeAny,
+    path: string,
+    root: JsonSchemaNode,
+    drift: string[]
+): void {
+    const fixture = resolve(node, root);
+    const inner = unwrap(schema);
+    if (fixture.properties) {
+        if (!(inner instanceof z.ZodObject)) {
+            drift.push(`${path}: fixture declares an object, validator does not`);
+            return;
+        }
+        const shape = inner.shape as Record<string, z.ZodTypeAny>;
+        const required = new Set(fixture.required ?? []);
+        for (const [key, child] of Object.entries(fixture.properties)) {
+            const childPath = `${path}.${key}`;
+            if (!(key in shape)) {
+                drift.push(`${childPath}: declared in fixture but missing from validator`);
+                continue;
+            }
+            if (required.has(key) === shape[key].isOptional()) {
+                drift.push(`${childPath}: required in ${required.has(key) ? "fixture" : "validator"} only`);
+            }
+            compareNode(child, shape[key], childPath, root, drift);
+        }
+        for (const key of Object.keys(shape)) {
+            if (!(key in fixture.properties)) {
+                drift.push(`${path}.${key}: declared in validator but missing from fixture`);
+            }
+        }
+        return;
+    }
+    if (typeof fixture.additionalProperties === "object") {
+        if (!(inner instanceof z.ZodRecord)) {
+            drift.push(`${path}: fixture declares a map, validator does not`);
+            return;
+        }
+        compareNode(fixture.additionalProperties, inner.valueSchema, `${path}.*`, root, drift);
+        return;
+    }
+    const hasPattern = inner instanceof z.ZodString && inner._def.checks.some((check) => check.kind === "regex");
+    if (fixture.pattern && !hasPattern) {
+        drift.push(`${path}: fixture requires pattern ${fixture.pattern}, validator does not`);
+    }
+}
+
+/**
+ * @notice Compare the fixture schema with the dialect validators
+ * @param fixture Parsed docs/fixtures/eth_config.expected.json
+ * @return One message per property that differs between the two
+ */
+export function checkFixtureDrift(fixture: JsonSchemaNode): string[] {
+    const drift: string[] = [];
+    const dialects: Record<EthConfigDialect, z.ZodTypeAny> = {
+        eip7910: Eip7910ConfigSchema,
+        legacy: LegacyEthConfigSchema,
+    };
+    for (const [dialect, schema] of Object.entries(dialects)) {
+        const definition = fixture.definitions?.[dialect];
+        if (!definition) {
+            drift.push(`$: fixture has no definition for the "${dialect}" dialect`);
+            continue;
+        }
+        compareNode(definition, schema, `$(${dialect})`, fixture, drift);
+    }
+    return drift;
+}
+
+/**
+ * @notice Pick the dialect of a raw eth_config response
+ * @dev Anything carrying a `current` key is treated as EIP-7910, everything else as legacy
+ */
+export function detectDialect(raw: unknown): EthConfigDialect {
+    return typeof raw === "object" && raw !== null && "current" in raw ? "eip7910" : "legacy";
+}
+
+/**
+ * @notice Validate a raw eth_config response
+ * @param raw Response returned by the node
+ * @return Parsed config tagged with its dialect, or every issue found with its JSON path
+ */
+export function validateEthConfig(raw: unknown): ValidationResult {
+    const dialect = detectDialect(raw);
+    if (dialect === "eip7910") {
+        const parsed = Eip7910ConfigSchema.safeParse(raw);
+        if (parsed.success) {
+            return { ok: true, issues: [], dialect, config: parsed.data };
+        }
+        return { ok: false, dialect, config: null, issues: toIssues(parsed.error) };
+    }
+    const parsed = LegacyEthConfigSchema.safeParse(raw);
+    if (parsed.success) {
+        return { ok: true, issues: [], dialect, config: parsed.data };
+    }
+    return { ok: false, dialect, config: null, issues: toIssues(parsed.error) };
+}
+
+/**
+ * @notice Check a fork's precompile map against an expected name→address table
+ * @return One message per missing or misplaced precompile
+ */
+export function checkPrecompiles(
+    fork: ForkConfig,
+    expected: Readonly<Record<string, string>> = OSAKA_PRECOMPILES
+): string[] {
+    const problems: string[] = [];
+    for (const [name, expectedAddress] of Object.entries(expected)) {
+        const actual = fork.precompiles[name];
+        if (!actual) {
+            problems.push(`${name} missing (expected at ${expectedAddress})`);
+        } else if (BigInt(actual) !== BigInt(expectedAddress)) {
+            problems.push(`${name} at ${actual} (expected ${expectedAddress})`);
+        }
+    }
+    return problems;
+}
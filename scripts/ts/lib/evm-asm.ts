@@ -0,0 +1,185 @@
+/**
+ * @file evm-asm.ts
+ * @notice Minimal EVM assembler, and eth_call runners for the bytecode it produces
+ * @dev Probes are written as opcode sequences and need neither Foundry artifacts nor a funded key:
+ *        assemble([["PUSH32", x], "CLZ", "PUSH0", "MSTORE", push(32), "PUSH0", "RETURN"])
+ *      They run through eth_call either as initcode (a call without `to`; whatever the code
+ *      RETURNs is the result) or as the runtime code of an address set with a state override.
+ */
+
+import { ethers } from "ethers";
+
+/** Opcodes up to Osaka, PUSH/DUP/SWAP/LOG families excluded (generated below) */
+const BASE_OPCODES: Record<string, number> = {
+    STOP: 0x00, ADD: 0x01, MUL: 0x02, SUB: 0x03, DIV: 0x04, SDIV: 0x05, MOD: 0x06, SMOD: 0x07,
+    ADDMOD: 0x08, MULMOD: 0x09, EXP: 0x0a, SIGNEXTEND: 0x0b,
+    LT: 0x10, GT: 0x11, SLT: 0x12, SGT: 0x13, EQ: 0x14, ISZERO: 0x15, AND: 0x16, OR: 0x17,
+    XOR: 0x18, NOT: 0x19, BYTE: 0x1a, SHL: 0x1b, SHR: 0x1c, SAR: 0x1d, CLZ: 0x1e,
+    KECCAK256: 0x20,
+    ADDRESS: 0x30, BALANCE: 0x31, ORIGIN: 0x32, CALLER: 0x33, CALLVALUE: 0x34, CALLDATALOAD: 0x35,
+    CALLDATASIZE: 0x36, CALLDATACOPY: 0x37, CODESIZE: 0x38, CODECOPY: 0x39, GASPRICE: 0x3a,
+    EXTCODESIZE: 0x3b, EXTCODECOPY: 0x3c, RETURNDATASIZE: 0x3d, RETURNDATACOPY: 0x3e, EXTCODEHASH: 0x3f,
+    BLOCKHASH: 0x40, COINBASE: 0x41, TIMESTAMP: 0x42, NUMBER: 0x43, PREVRANDAO: 0x44, GASLIMIT: 0x45,
+    CHAINID: 0x46, SELFBALANCE: 0x47, BASEFEE: 0x48, BLOBHASH: 0x49, BLOBBASEFEE: 0x4a,
+    POP: 0x50, MLOAD: 0x51, MSTORE: 0x52, MSTORE8: 0x53, SLOAD: 0x54, SSTORE: 0x55, JUMP: 0x56,
+    JUMPI: 0x57, PC: 0x58, MSIZE: 0x59, GAS: 0x5a, JUMPDEST: 0x5b, TLOAD: 0x5c, TSTORE: 0x5d,
+    MCOPY: 0x5e, PUSH0: 0x5f,
+    CREATE: 0xf0, CALL: 0xf1, CALLCODE: 0xf2, RETURN: 0xf3, DELEGATECALL: 0xf4, CREATE2: 0xf5,
+    STATICCALL: 0xfa, REVERT: 0xfd, INVALID: 0xfe, SELFDESTRUCT: 0xff,
+};
+
+export const OPCODES: Readonly<Record<string, number>> = (() => {
+    const opcodes = { ...BASE_OPCODES };
+    for (let n = 1; n <= 32; n++) {
+        opcodes[`PUSH${n}`] = 0x5f + n;
+    }
+    for (let n = 1; n <= 16; n++) {
+        opcodes[`DUP${n}`] = 0x7f + n;
+        opcodes[`SWAP${n}`] = 0x8f + n;
+    }
+    for (let n = 0; n <= 4; n++) {
+        opcodes[`LOG${n}`] = 0xa0 + n;
+    }
+    return opcodes;
+})();
+
+/**
+ * One assembler item:
+ *   - "MNEMONIC"              an opcode without immediate
+ *   - ["PUSHn", value]        PUSHn with `value` left-padded to n bytes
+ *   - push(value)             the shortest PUSH for `value` (PUSH0 for zero)
+ *   - label(name) / ref(name) a JUMPDEST, and a PUSH2 of its offset
+ *   - raw(bytes)              bytes copied verbatim, e.g. data read by CODECOPY
+ */
+export type AsmItem =
+    | string
+    | [string, ethers.BigNumberish]
+    | { push: ethers.BigNumberish }
+    | { label: string }
+    | { ref: string }
+    | { raw: ethers.BytesLike };
+
+export const push = (value: ethers.BigNumberish): AsmItem => ({ push: value });
+export const label = (name: string): AsmItem => ({ label: name });
+export const ref = (name: string): AsmItem => ({ ref: name });
+export const raw = (bytes: ethers.BytesLike): AsmItem => ({ raw: bytes });
+
+function opcode(mnemonic: string): number {
+    const code = OPCODES[mnemonic.toUpperCase()];
+    if (code === undefined) {
+        throw new Error(`unknown opcode ${mnemonic}`);
+    }
+    return code;
+}
+
+function pushBytes(width: number, value: ethers.BigNumberish): string {
+    const int = ethers.toBigInt(value);
+    if (int < 0n || int >= 1n << BigInt(8 * width)) {
+        throw new Error(`PUSH${width} immediate ${value} does not fit in ${width} bytes`);
+    }
+    return ethers.concat([ethers.toBeHex(0x5f + width, 1), ethers.toBeHex(int, width)]);
+}
+
+/**
+ * @notice Assemble `items` into bytecode
+ * @dev Labels resolve to PUSH2 offsets, so code is limited to 64 KiB.
+ */
+export function assemble(items: AsmItem[]): string {
+    const labels = new Map<string, number>();
+    const refs: { name: string; offset: number }[] = [];
+    const parts: string[] = [];
+    let length = 0;
+    const emit = (bytes: string) => {
+        parts.push(bytes);
+        length += ethers.dataLength(bytes);
+    };
+
+    for (const item of items) {
+        if (typeof item === "string") {
+            const code = opcode(item);
+            if (code > 0x5f && code <= 0x7f) {
+                throw new Error(`${item} needs an immediate: use ["${item}", value] or push(value)`);
+            }
+            emit(ethers.toBeHex(code, 1));
+        } else if (Array.isArray(item)) {
+            const [mnemonic, value] = item;
+            const width = opcode(mnemonic) - 0x5f;
+            if (width < 1 || width > 32) {
+                throw new Error(`${mnemonic} takes no immediate`);
+            }
+            emit(pushBytes(width, value));
+        } else if ("push" in item) {
+            const int = ethers.toBigInt(item.push);
+            emit(int === 0n ? "0x5f" : pushBytes(ethers.toBeArray(int).length, int));
+        } else if ("label" in item) {
+            if (labels.has(item.label)) {
+                throw new Error(`label ${item.label} defined twice`);
+            }
+            labels.set(item.label, length);
+            emit("0x5b");
+        } else if ("ref" in item) {
+            refs.push({ name: item.ref, offset: length + 1 });
+            emit("0x610000");
+        } else {
+            emit(ethers.hexlify(item.raw));
+        }
+    }
+
+    const code = ethers.getBytes(ethers.concat(parts));
+    for (const { name, offset } of refs) {
+        const target = labels.get(name);
+        if (target === undefined) {
+            throw new Error(`undefined label ${name}`);
+        }
+        code.set(ethers.getBytes(ethers.toBeHex(target, 2)), offset);
+    }
+    return ethers.hexlify(code);
+}
+
+/** Items that return the top of the stack as one 32-byte word */
+export const RETURN_TOP: AsmItem[] = ["PUSH0", "MSTORE", push(32), "PUSH0", "RETURN"];
+
+/**
+ * @notice Initcode that deploys `runtime` as the new contract's code
+ * @param setup Items run first, e.g. to emit logs during the creation; they must leave the stack empty
+ */
+export function creationCode(runtime: string, setup: AsmItem[] = []): string {
+    const size = ethers.dataLength(runtime);
+    const header = (offset: number) =>
+        assemble([...setup, ["PUSH2", size], "DUP1", push(offset), "PUSH0", "CODECOPY", "PUSH0", "RETURN"]);
+    // The runtime starts right after the header, whose length depends on the width of that offset
+    let offset = 1;
+    while (ethers.dataLength(header(offset)) !== offset) {
+        offset = ethers.dataLength(header(offset));
+    }
+    return ethers.concat([header(offset), runtime]);
+}
+
+/** Address the state-override runner puts probe code at */
+export const PROBE_ADDRESS = "0x00000000000000000000000000000000000ca11e";
+
+/**
+ * @notice Run `initcode` as a contract creation through eth_call and return what it RETURNs
+ * @dev Calldata is empty in this mode; probes read their input from their own code.
+ * @param block Block tag or hex block number
+ */
+export async function callInitcode(
+    provider: ethers.JsonRpcProvider,
+    initcode: string,
+    block: string = "latest"
+): Promise<string> {
+    return provider.send("eth_call", [{ data: initcode }, block]);
+}
+
+/**
+ * @notice Run `code` as the runtime code of PROBE_ADDRESS, set with an eth_call state override
+ * @param data Calldata for the probe
+ */
+export async function callWithCode(
+    provider: ethers.JsonRpcProvider,
+    code: string,
+    data: string = "0x",
+    block: string = "latest"
+): Promise<string> {
+    return provider.send("eth_call", [{ to: PROBE_ADDRESS, data }, block, { [PROBE_ADDRESS]: { code } }]);
+}
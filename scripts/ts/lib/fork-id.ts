@@ -0,0 +1,125 @@
+/**
+ * @file fork-id.ts
+ * @notice EIP-2124 fork identifier calculator
+ * @dev FORK_HASH = CRC32 over the genesis hash, updated with every passed fork activation point
+ *      encoded as a big-endian uint64. Block-number forks come first, then timestamp forks
+ *      (EIP-6122). Activation points shared by several forks are counted once, and points at
+ *      genesis (block 0, or a timestamp not after the genesis timestamp) are skipped.
+ */
+
+import { ethers } from "ethers";
+
+/** A single scheduled fork, activated either by block number or by timestamp */
+export interface ScheduledFork {
+    name: string;
+    block?: number;
+    time?: number;
+}
+
+/** Fork schedule of a network, as needed to derive its fork IDs */
+export interface ForkSchedule {
+    network: string;
+    chainId: bigint;
+    genesisHash: string;
+    /** Genesis block timestamp; timestamp forks at or before it are active from genesis */
+    genesisTime: number;
+    forks: ScheduledFork[];
+}
+
+/** EIP-2124 fork identifier */
+export interface ForkId {
+    /** 4-byte CRC32 checksum, e.g. "0xfc64ec04" */
+    hash: string;
+    /** Next activation point (block or timestamp), 0 if none is scheduled */
+    next: number;
+}
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * @notice Continue an IEEE CRC32 checksum over more data
+ * @param crc Checksum of the data seen so far (0 to start)
+ * @param data Bytes to append
+ */
+export function crc32Update(crc: number, data: Uint8Array): number {
+    let c = ~crc >>> 0;
+    for (const byte of data) {
+        c = CRC32_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+    }
+    return ~c >>> 0;
+}
+
+function uint64(value: number): Uint8Array {
+    const out = new Uint8Array(8);
+    new DataView(out.buffer).setBigUint64(0, BigInt(value));
+    return out;
+}
+
+function formatHash(crc: number): string {
+    return `0x${crc.toString(16).padStart(8, "0")}`;
+}
+
+/**
+ * @notice Ordered, de-duplicated activation points of a schedule
+ * @return Block forks first, then timestamp forks, genesis-active points removed
+ */
+export function activationPoints(schedule: ForkSchedule): { blocks: number[]; times: number[] } {
+    const blocks = new Set<number>();
+    const times = new Set<number>();
+    for (const fork of schedule.forks) {
+        if (fork.block !== undefined && fork.block > 0) {
+            blocks.add(fork.block);
+        }
+        if (fork.time !== undefined && fork.time > schedule.genesisTime) {
+            times.add(fork.time);
+        }
+    }
+    return {
+        blocks: [...blocks].sort((a, b) => a - b),
+        times: [...times].sort((a, b) => a - b),
+    };
+}
+
+/**
+ * @notice Compute the fork ID of a node whose head is at the given block and timestamp
+ * @param schedule Fork schedule of the network
+ * @param head Head block number and timestamp
+ */
+export function computeForkId(schedule: ForkSchedule, head: { block: number; time: number }): ForkId {
+    let crc = crc32Update(0, ethers.getBytes(schedule.genesisHash));
+    const { blocks, times } = activationPoints(schedule);
+
+    for (const block of blocks) {
+        if (block > head.block) {
+            return { hash: formatHash(crc), next: block };
+        }
+        crc = crc32Update(crc, uint64(block));
+    }
+    for (const time of times) {
+        if (time > head.time) {
+            return { hash: formatHash(crc), next: time };
+        }
+        crc = crc32Update(crc, uint64(time));
+    }
+    return { hash: formatHash(crc), next: 0 };
+}
+
+/**
+ * @notice Fork ID of a timestamp-activated fork, as reported in eth_config (EIP-7910)
+ * @dev All block-number forks are assumed passed, which holds for every post-merge fork
+ * @param schedule Fork schedule of the network
+ * @param activationTime `activationTime` of the fork
+ */
+export function forkIdAtActivation(schedule: ForkSchedule, activationTime: number): ForkId {
+    return computeForkId(schedule, { block: Number.MAX_SAFE_INTEGER, time: activationTime });
+}
@@ -0,0 +1,109 @@
+/**
+ * @file fork-schedules.ts
+ * @notice Fork schedules of known networks, used to derive EIP-2124 fork IDs
+ * @dev Chains without a schedule here (Etherlink) get one built from their networks.json profile
+ */
+
+import { ethers } from "ethers";
+import type { ForkSchedule } from "./fork-id.js";
+import { loadNetworks, type NetworkProfile } from "./networks.js";
+
+export const MAINNET_SCHEDULE: ForkSchedule = {
+    network: "mainnet",
+    chainId: 1n,
+    genesisHash: "0xd4e56740f876aef8c010b86a40d5f56745a118d0906a34e69aec8c0db1cb8fa3",
+    genesisTime: 0,
+    forks: [
+        { name: "Homestead", block: 1_150_000 },
+        { name: "DAO", block: 1_920_000 },
+        { name: "TangerineWhistle", block: 2_463_000 },
+        { name: "SpuriousDragon", block: 2_675_000 },
+        { name: "Byzantium", block: 4_370_000 },
+        { name: "Constantinople", block: 7_280_000 },
+        { name: "Petersburg", block: 7_280_000 },
+        { name: "Istanbul", block: 9_069_000 },
+        { name: "MuirGlacier", block: 9_200_000 },
+        { name: "Berlin", block: 12_244_000 },
+        { name: "London", block: 12_965_000 },
+        { name: "ArrowGlacier", block: 13_773_000 },
+        { name: "GrayGlacier", block: 15_050_000 },
+        { name: "Shanghai", time: 1_681_338_455 },
+        { name: "Cancun", time: 1_710_338_135 },
+        { name: "Prague", time: 1_746_612_311 },
+        { name: "Osaka", time: 1_764_798_551 },
+        { name: "BPO1", time: 1_765_290_071 },
+        { name: "BPO2", time: 1_767_747_671 },
+    ],
+};
+
+export const SEPOLIA_SCHEDULE: ForkSchedule = {
+    network: "sepolia",
+    chainId: 11_155_111n,
+    genesisHash: "0x25a5cc106eea7138acab33231d7160d69cb777ee0c2c553fcddf5138993e6dd9",
+    genesisTime: 1_633_267_481,
+    forks: [
+        { name: "Berlin", block: 0 },
+        { name: "London", block: 0 },
+        { name: "MergeNetsplit", block: 1_735_371 },
+        { name: "Shanghai", time: 1_677_557_088 },
+        { name: "Cancun", time: 1_706_655_072 },
+        { name: "Prague", time: 1_741_159_776 },
+        { name: "Osaka", time: 1_760_427_360 },
+        { name: "BPO1", time: 1_761_017_184 },
+        { name: "BPO2", time: 1_761_607_008 },
+    ],
+};
+
+/** Known schedules, keyed by chain ID */
+export const FORK_SCHEDULES: ReadonlyMap<bigint, ForkSchedule> = new Map(
+    [MAINNET_SCHEDULE, SEPOLIA_SCHEDULE].map((schedule) => [schedule.chainId, schedule])
+);
+
+/**
+ * @notice Schedule of `profile`'s chain: genesis hash and timestamp from the node's block 0, the
+ *         profile's `forks`, and Osaka at the profile's activation point when one is set
+ */
+export async function scheduleFromProfile(
+    profile: NetworkProfile,
+    provider: ethers.JsonRpcProvider
+): Promise<ForkSchedule> {
+    const genesis = await provider.getBlock(0);
+    if (!genesis?.hash) {
+        throw new Error("node returned no genesis block");
+    }
+    const forks = [...profile.forks];
+    if (profile.osaka.activationBlock !== null) {
+        forks.push({ name: "Osaka", block: Number(profile.osaka.activationBlock) });
+    } else if (profile.osaka.activationTime !== null) {
+        forks.push({ name: "Osaka", time: profile.osaka.activationTime });
+    }
+    return {
+        network: profile.name,
+        chainId: profile.chainId,
+        genesisHash: genesis.hash,
+        genesisTime: genesis.timestamp,
+        forks,
+    };
+}
+
+/**
+ * @notice Fork schedule for `chainId`: a known one, else one built from a network profile
+ * @dev Uses the selected profile when it is for this chain, otherwise the first profile in
+ *      networks.json with the same chain ID
+ * @return null when no schedule or profile covers the chain
+ */
+export async function resolveForkSchedule(
+    chainId: bigint,
+    network: NetworkProfile | null,
+    provider: ethers.JsonRpcProvider
+): Promise<ForkSchedule | null> {
+    const known = FORK_SCHEDULES.get(chainId);
+    if (known) {
+        return known;
+    }
+    const profile =
+        network?.chainId === chainId
+            ? network
+            : [...loadNetworks().values()].find((candidate) => candidate.chainId === chainId);
+    return profile ? scheduleFromProfile(profile, provider) : null;
+}
@@ -0,0 +1,103 @@
+/**
+ * @file fuzz.ts
+ * @notice Seeded random values and shrinking of failing inputs, for reproducible fuzz runs
+ */
+
+import { randomBytes } from "crypto";
+
+const MASK_64 = (1n << 64n) - 1n;
+
+export interface Rng {
+    readonly seed: bigint;
+    /** Uniform integer in [0, 2^bits) */
+    bits(bits: number): bigint;
+}
+
+/**
+ * @notice SplitMix64 generator; the same seed always yields the same sequence
+ */
+export function createRng(seed: bigint): Rng {
+    let state = seed & MASK_64;
+    const next = () => {
+        state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+        let z = state;
+        z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+        z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+        return z ^ (z >> 31n);
+    };
+    return {
+        seed: seed & MASK_64,
+        bits(bits: number): bigint {
+            let value = 0n;
+            for (let filled = 0; filled < bits; filled += 64) {
+                value = (value << 64n) | next();
+            }
+            return value & ((1n << BigInt(bits)) - 1n);
+        },
+    };
+}
+
+/**
+ * @notice Fresh 64-bit seed, for runs that do not pass one
+ */
+export function randomSeed(): bigint {
+    return randomBytes(8).readBigUInt64BE();
+}
+
+/**
+ * @notice Parse a seed given on the command line, in decimal or 0x-prefixed hex
+ */
+export function parseSeed(value: string): bigint {
+    try {
+        return BigInt(value) & MASK_64;
+    } catch {
+        throw new Error(`invalid seed "${value}": expected a decimal or 0x-prefixed integer`);
+    }
+}
+
+/**
+ * @notice Smaller values to try in place of a failing `value`, smallest first
+ * @dev Single bits, runs of low or middle bits, and the top bit's position are tried at once,
+ *      so a failure that depends on a few bits shrinks in a handful of steps.
+ */
+function shrinkCandidates(value: bigint): bigint[] {
+    const candidates = new Set<bigint>([0n, 1n]);
+    if (value > 0n) {
+        const topBit = 1n << BigInt(value.toString(2).length - 1);
+        candidates.add(topBit);
+        candidates.add(value >> 1n);
+        candidates.add(value - 1n);
+        for (let bit = 1n; bit < topBit; bit <<= 1n) {
+            if (value & bit) {
+                candidates.add(value ^ bit); // clear a lower set bit
+            }
+            candidates.add((value ^ topBit) | bit); // move the top bit down
+            const below = value & (bit - 1n);
+            candidates.add(below); // drop every bit from here up
+            candidates.add(value ^ below); // drop every bit below here
+            candidates.add(topBit | below); // drop the bits in between
+        }
+        candidates.add(value ^ topBit);
+    }
+    return [...candidates].filter((candidate) => candidate < value).sort((a, b) => (a < b ? -1 : 1));
+}
+
+/**
+ * @notice Greedily shrink a failing non-negative integer to a smaller one that still fails
+ * @param fails Checks a batch of candidates at once; true for each candidate that still fails
+ * @return The smallest failing value reached, `value` itself if nothing smaller fails
+ */
+export async function shrinkBigInt(value: bigint, fails: (candidates: bigint[]) => Promise<boolean[]>): Promise<bigint> {
+    for (;;) {
+        const candidates = shrinkCandidates(value);
+        if (candidates.length === 0) {
+            return value;
+        }
+        const results = await fails(candidates);
+        const smaller = candidates.find((_, i) => results[i]);
+        if (smaller === undefined) {
+            return value;
+        }
+        value = smaller;
+    }
+}
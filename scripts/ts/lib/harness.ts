@@ -0,0 +1,346 @@
+/**
+ * @file harness.ts
+ * @notice Shared test harness for the scripts/ts entry points
+ * @dev A suite is a `run(h)` function that registers its checks through `h.test(...)`.
+ *      Each check ends as pass, fail (any thrown error) or skip (`skip(reason)`), and the
+ *      process exit code is derived from those results by `exitCodeFor`.
+ *      With `--network <name>` the run is pinned to a profile from networks.json: the node's
+ *      chain ID is checked before any suite runs, and tests whose EIPs the profile marks as
+ *      skipped are skipped without running.
+ */
+
+import { ethers } from "ethers";
+import { realpathSync } from "fs";
+import { fileURLToPath } from "url";
+import { ConfigError, loadEnv, type EnvConfig } from "./env.js";
+import { networkFromArgv, type EipStatus, type NetworkProfile } from "./networks.js";
+
+export type TestStatus = "pass" | "fail" | "skip";
+
+export interface TestResult {
+    suite: string;
+    /** Test id, unique within its suite */
+    id: string;
+    title: string;
+    eips: number[];
+    status: TestStatus;
+    /** Failure or skip reason */
+    reason?: string;
+    durationMs: number;
+    /** Measurements recorded by the test with `h.detail()` */
+    details?: Record<string, unknown>;
+}
+
+export interface TestSpec {
+    id: string;
+    title: string;
+    /**
+     * EIPs covered by the test; defaults to the suite's EIPs. Must be among the suite's EIPs:
+     * `--only <eip>` only starts suites that list the EIP.
+     */
+    eips?: number[];
+    /** Later tests of the suite depend on this one; it runs whenever the suite runs, even outside `--only` */
+    prerequisite?: boolean;
+}
+
+export interface Suite {
+    id: string;
+    title: string;
+    eips: number[];
+    run(h: Harness): Promise<void>;
+}
+
+/** Thrown by `skip()` to end a test as skipped */
+export class SkipTest extends Error {
+    constructor(reason: string) {
+        super(reason);
+        this.name = "SkipTest";
+    }
+}
+
+/**
+ * @notice End the current test as skipped
+ * @param reason Why the test does not apply
+ */
+export function skip(reason: string): never {
+    throw new SkipTest(reason);
+}
+
+function describeError(error: any): string {
+    if (error instanceof ConfigError) {
+        return `configuration: ${error.message}`;
+    }
+    return error?.message ?? String(error);
+}
+
+export function defineSuite(suite: Suite): Suite {
+    return suite;
+}
+
+export interface HarnessOptions {
+    /** Command-line arguments for suite-specific flags (defaults to process.argv.slice(2)) */
+    argv?: string[];
+    /** Decides whether a test runs; tests it rejects are neither run nor recorded */
+    filter?: (suite: Suite, spec: TestSpec) => boolean;
+    /** Profile selected with --network */
+    network?: NetworkProfile | null;
+}
+
+/**
+ * @notice Per-suite context: environment, provider and wallet, plus result collection
+ */
+export class Harness {
+    readonly results: TestResult[] = [];
+    readonly argv: string[];
+    private readonly filter: (suite: Suite, spec: TestSpec) => boolean;
+    readonly network: NetworkProfile | null;
+
+    private _env: EnvConfig | null = null;
+    private _provider: ethers.JsonRpcProvider | null = null;
+    private _wallet: ethers.Wallet | null = null;
+    private _funded: Promise<ethers.Wallet> | null = null;
+    private details: Record<string, unknown> | null = null;
+
+    constructor(
+        readonly suite: Suite,
+        options: HarnessOptions = {}
+    ) {
+        this.argv = options.argv ?? process.argv.slice(2);
+        this.filter = options.filter ?? (() => true);
+        this.network = options.network ?? null;
+    }
+
+    get env(): EnvConfig {
+        this._env ??= loadEnv(process.env, this.network);
+        return this._env;
+    }
+
+    /** Status the selected profile expects for an EIP; null without a profile or if the profile omits it */
+    eipStatus(eip: number): EipStatus | null {
+        return this.network?.eips.get(eip) ?? null;
+    }
+
+    /**
+     * @notice Skip the current test unless the selected profile marks the EIP as enabled
+     * @dev For EIPs Etherlink leaves off unless a profile says otherwise
+     */
+    requireEnabled(eip: number): void {
+        if (this.eipStatus(eip) !== "enabled") {
+            const where = this.network ? `the ${this.network.name} profile` : "Etherlink (no --network profile selected)";
+            skip(`EIP-${eip} is not enabled on ${where}`);
+        }
+    }
+
+    get provider(): ethers.JsonRpcProvider {
+        if (!this._provider) {
+            console.log(`Connecting to RPC: ${this.env.rpcUrl}`);
+            this._provider = new ethers.JsonRpcProvider(this.env.rpcUrl);
+        }
+        return this._provider;
+    }
+
+    get wallet(): ethers.Wallet {
+        this._wallet ??= new ethers.Wallet(this.env.privateKey, this.provider);
+        return this._wallet;
+    }
+
+    /**
+     * @notice Wallet with a non-zero balance; throws if the test account is empty
+     * @dev The balance is checked once per suite
+     */
+    fundedWallet(): Promise<ethers.Wallet> {
+        this._funded ??= (async () => {
+            const wallet = this.wallet;
+            const address = await wallet.getAddress();
+            console.log(`Test account: ${address}${this.env.usingDefaultKey ? " (Anvil default key)" : ""}`);
+            const balance = await this.provider.getBalance(address);
+            console.log(`Balance: ${ethers.formatEther(balance)} ETH`);
+            if (balance === 0n) {
+                throw new Error("Test account has no balance. Please fund it first.");
+            }
+            return wallet;
+        })();
+        return this._funded;
+    }
+
+    /**
+     * @notice Attach a measurement to the running test's result (and so to the JSON report)
+     * @param value Any JSON-serializable value; convert bigints to strings first
+     */
+    detail(key: string, value: unknown): void {
+        if (!this.details) {
+            throw new Error("h.detail() called outside of a test");
+        }
+        this.details[key] = value;
+    }
+
+    /**
+     * @notice Run one check and record its result
+     * @param spec Test id, title and covered EIPs
+     * @param fn Test body; throw to fail, call `skip()` to skip
+     * @return The recorded result, or null if the test was filtered out
+     */
+    async test(spec: TestSpec, fn: () => Promise<void>): Promise<TestResult | null> {
+        const undeclared = (spec.eips ?? []).filter((eip) => !this.suite.eips.includes(eip));
+        if (undeclared.length > 0) {
+            const missing = `EIP-${undeclared.join(", EIP-")}`;
+            throw new Error(`test ${this.suite.id}/${spec.id} covers ${missing}, which the suite's eips do not list`);
+        }
+        if (!this.filter(this.suite, spec)) {
+            return null;
+        }
+        console.log(`\n=== ${spec.title} ===`);
+        const started = Date.now();
+        let status: TestStatus = "pass";
+        let reason: string | undefined;
+        const eips = spec.eips ?? this.suite.eips;
+        this.details = {};
+        try {
+            if (this.network && eips.length > 0 && eips.every((eip) => this.eipStatus(eip) === "skipped")) {
+                skip(`EIP-${eips.join(", EIP-")} marked skipped in the ${this.network.name} profile`);
+            }
+            await fn();
+        } catch (error: any) {
+            if (error instanceof SkipTest) {
+                status = "skip";
+                reason = error.message;
+            } else {
+                status = "fail";
+                reason = describeError(error);
+            }
+        }
+        const details = this.details;
+        this.details = null;
+        const result = this.record(spec, status, reason, Date.now() - started);
+        if (Object.keys(details).length > 0) {
+            result.details = details;
+        }
+        if (status === "pass") {
+            console.log(`✓ ${spec.title}`);
+        } else if (status === "skip") {
+            console.log(`⚠ ${spec.title} skipped: ${reason}`);
+        } else {
+            console.error(`✗ ${spec.title} failed: ${reason}`);
+        }
+        return result;
+    }
+
+    /** Record a failure that happened outside of any test (setup, configuration) */
+    fail(spec: TestSpec, reason: string): TestResult {
+        console.error(`✗ ${spec.title} failed: ${reason}`);
+        return this.record(spec, "fail", reason, 0);
+    }
+
+    private record(spec: TestSpec, status: TestStatus, reason: string | undefined, durationMs: number): TestResult {
+        const result: TestResult = {
+            suite: this.suite.id,
+            id: spec.id,
+            title: spec.title,
+            eips: spec.eips ?? this.suite.eips,
+            status,
+            reason,
+            durationMs,
+        };
+        this.results.push(result);
+        return result;
+    }
+}
+
+/**
+ * @notice Run a suite; errors escaping `run` are recorded as a failing "setup" result
+ */
+export async function runSuite(suite: Suite, options: HarnessOptions = {}): Promise<TestResult[]> {
+    const h = new Harness(suite, options);
+    try {
+        await suite.run(h);
+    } catch (error: any) {
+        h.fail({ id: "setup", title: `${suite.title} setup` }, describeError(error));
+    }
+    return h.results;
+}
+
+/**
+ * @notice Check that the node behind the selected profile serves the profile's chain
+ * @dev Runs as its own "network" suite so a mismatch shows up in the summary and reports
+ */
+export function runNetworkCheck(network: NetworkProfile, options: HarnessOptions = {}): Promise<TestResult[]> {
+    const networkSuite = defineSuite({
+        id: "network",
+        title: `Network profile ${network.name}`,
+        eips: [],
+        async run(h) {
+            await h.test({ id: "chain-id", title: `Chain ID matches ${network.name}` }, async () => {
+                const chainId = BigInt(await h.provider.send("eth_chainId", []));
+                if (chainId !== network.chainId) {
+                    throw new Error(`node reports chain ID ${chainId}, ${network.name} expects ${network.chainId}`);
+                }
+                console.log(`✓ Chain ID ${chainId}`);
+            });
+        },
+    });
+    return runSuite(networkSuite, { ...options, network, filter: undefined });
+}
+
+/** 1 if any test failed, 0 otherwise (skipped tests do not fail the run) */
+export function exitCodeFor(results: TestResult[]): number {
+    return results.some((result) => result.status === "fail") ? 1 : 0;
+}
+
+export function summarize(results: TestResult[]): Record<TestStatus, number> {
+    const counts: Record<TestStatus, number> = { pass: 0, fail: 0, skip: 0 };
+    for (const result of results) {
+        counts[result.status]++;
+    }
+    return counts;
+}
+
+/** True if the module with the given import.meta.url is the script node was started with */
+export function isEntryPoint(moduleUrl: string): boolean {
+    if (!process.argv[1]) {
+        return false;
+    }
+    try {
+        return realpathSync(fileURLToPath(moduleUrl)) === realpathSync(process.argv[1]);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * @notice Print pass/fail/skip counts and every non-passing result
+ */
+export function printSummary(title: string, results: TestResult[]): void {
+    const counts = summarize(results);
+    console.log("\n" + "=".repeat(50));
+    console.log(`${title}: ${counts.pass} passed, ${counts.fail} failed, ${counts.skip} skipped`);
+    for (const result of results.filter((r) => r.status !== "pass")) {
+        const mark = result.status === "fail" ? "✗" : "⚠";
+        console.log(`  ${mark} ${result.suite}/${result.id}: ${result.reason}`);
+    }
+}
+
+/**
+ * @notice Standalone entry point: run one suite, print a summary and exit with `exitCodeFor`
+ */
+export async function runMain(suite: Suite): Promise<never> {
+    const argv = process.argv.slice(2);
+    let network: NetworkProfile | null;
+    try {
+        network = networkFromArgv(argv);
+    } catch (error: any) {
+        console.error(`ERROR: ${describeError(error)}`);
+        process.exit(1);
+    }
+    const results = await (async () => {
+        const checks = network ? await runNetworkCheck(network, { argv }) : [];
+        if (exitCodeFor(checks) !== 0) {
+            return checks;
+        }
+        return [...checks, ...(await runSuite(suite, { argv, network }))];
+    })().catch((error) => {
+        console.error("Fatal error:", error);
+        process.exit(1);
+    });
+    printSummary(suite.title, results);
+    process.exit(exitCodeFor(results));
+}
@@ -0,0 +1,153 @@
+/**
+ * @file instant-events.ts
+ * @notice Record of the Instant Confirmations events seen during a run, and checks that each sent
+ *         transaction got exactly one included-transaction event and one preconfirmed receipt, in order
+ * @dev Expected sequence per transaction:
+ *        tez_newIncludedTransactions -> tez_newPreconfirmedReceipts -> newHeads for its block
+ *      Order is decided by arrival sequence, not by timestamp: the three streams share one WebSocket,
+ *      so arrival order is the order the node sent them in. When no newHeads event was seen for the
+ *      block (subscription refused, or missed), the moment the final receipt was observed stands in.
+ */
+
+export type EventOrderIssueKind =
+    | "missing-included"
+    | "missing-preconfirmed"
+    | "duplicate-included"
+    | "duplicate-preconfirmed"
+    | "orphan-receipt"
+    | "preconfirmed-before-included"
+    | "final-before-included"
+    | "final-before-preconfirmed";
+
+export interface EventOrderIssue {
+    kind: EventOrderIssueKind;
+    txHash: string;
+    /** Sent during this run; issues on other transactions only come from the stream itself */
+    tracked: boolean;
+    detail: string;
+}
+
+/** An event's arrival: position in the run's event sequence and Date.now() */
+interface Arrival {
+    seq: number;
+    at: number;
+}
+
+interface TransactionEvents {
+    tracked: boolean;
+    included: Arrival[];
+    preconfirmed: Arrival[];
+    /** Final receipt observed by polling */
+    final: (Arrival & { blockNumber: number }) | null;
+}
+
+/**
+ * Receipts for unknown transactions that arrive this soon after the log starts are not orphans:
+ * their included event may have been sent before the subscription existed
+ */
+const WARMUP_MS = 1000;
+
+export class InstantEventLog {
+    private readonly transactions = new Map<string, TransactionEvents>();
+    private readonly heads = new Map<number, Arrival>();
+    private readonly startedAt = Date.now();
+    private seq = 0;
+
+    /** Mark `txHash` as sent during this run: it must get its events */
+    track(txHash: string): void {
+        this.entry(txHash).tracked = true;
+    }
+
+    recordIncluded(txHash: string): void {
+        this.entry(txHash).included.push(this.arrival());
+    }
+
+    recordPreconfirmed(txHash: string): void {
+        this.entry(txHash).preconfirmed.push(this.arrival());
+    }
+
+    /** A newHeads event; only the first one for each block number counts */
+    recordHead(blockNumber: number): void {
+        if (!this.heads.has(blockNumber)) {
+            this.heads.set(blockNumber, this.arrival());
+        }
+    }
+
+    /** The final receipt of `txHash` was observed; only the first observation counts */
+    recordFinal(txHash: string, blockNumber: number): void {
+        const entry = this.entry(txHash);
+        entry.final ??= { ...this.arrival(), blockNumber };
+    }
+
+    /** Date.now() at the first event of `kind` for `txHash`, or null if none arrived */
+    firstSeen(txHash: string, kind: "included" | "preconfirmed"): number | null {
+        return this.transactions.get(txHash.toLowerCase())?.[kind][0]?.at ?? null;
+    }
+
+    get trackedCount(): number {
+        return [...this.transactions.values()].filter((entry) => entry.tracked).length;
+    }
+
+    /**
+     * @notice Every completeness and ordering problem in the events seen so far
+     * @dev Tracked transactions need exactly one event of each kind, in order before their final
+     *      block. On any transaction, duplicates and receipts without an included event are flagged.
+     */
+    check(): EventOrderIssue[] {
+        const issues: EventOrderIssue[] = [];
+        for (const [txHash, entry] of this.transactions) {
+            const issue = (kind: EventOrderIssueKind, detail: string) =>
+                issues.push({ kind, txHash, tracked: entry.tracked, detail });
+            const [included, preconfirmed] = [entry.included[0], entry.preconfirmed[0]];
+
+            if (entry.included.length > 1) {
+                issue("duplicate-included", `${entry.included.length} included-transaction events`);
+            }
+            if (entry.preconfirmed.length > 1) {
+                issue("duplicate-preconfirmed", `${entry.preconfirmed.length} preconfirmed receipts`);
+            }
+            if (!included && preconfirmed && (entry.tracked || preconfirmed.at - this.startedAt >= WARMUP_MS)) {
+                issue("orphan-receipt", "preconfirmed receipt without an included-transaction event");
+            }
+            if (!entry.tracked) {
+                continue;
+            }
+            if (!included && !preconfirmed) {
+                issue("missing-included", "no included-transaction event");
+            }
+            if (!preconfirmed) {
+                issue("missing-preconfirmed", "no preconfirmed receipt");
+            }
+            if (included && preconfirmed && preconfirmed.seq < included.seq) {
+                issue("preconfirmed-before-included", `receipt ${included.at - preconfirmed.at} ms before inclusion`);
+            }
+
+            if (entry.final) {
+                const head = this.heads.get(entry.final.blockNumber);
+                const final = head ?? entry.final;
+                const what = head ? `newHeads for block ${entry.final.blockNumber}` : "final receipt";
+                if (included && final.seq < included.seq) {
+                    issue("final-before-included", `${what} ${included.at - final.at} ms before inclusion`);
+                }
+                if (preconfirmed && final.seq < preconfirmed.seq) {
+                    issue("final-before-preconfirmed", `${what} ${preconfirmed.at - final.at} ms before the receipt`);
+                }
+            }
+        }
+        return issues;
+    }
+
+    private entry(txHash: string): TransactionEvents {
+        const key = txHash.toLowerCase();
+        let entry = this.transactions.get(key);
+        if (!entry) {
+            entry = { tracked: false, included: [], preconfirmed: [], final: null };
+            this.transactions.set(key, entry);
+        }
+        return entry;
+    }
+
+    private arrival(): Arrival {
+        return { seq: this.seq++, at: Date.now() };
+    }
+}
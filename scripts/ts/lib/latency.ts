@@ -0,0 +1,83 @@
+/**
+ * @file latency.ts
+ * @notice Percentile statistics over latency samples, and CSV/JSON export of the raw samples
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+export interface LatencyStats {
+    count: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    max: number;
+    mean: number;
+}
+
+/**
+ * @notice Nearest-rank percentile of ascending `sorted`: the smallest sample with at least p% of
+ *         the samples at or below it
+ * @dev Exact on small sample sets (no interpolation), so p99 of 20 samples is the maximum.
+ */
+export function percentile(sorted: readonly number[], p: number): number {
+    if (sorted.length === 0) {
+        throw new Error("percentile of an empty sample set");
+    }
+    const rank = Math.max(1, Math.ceil((p / 100) * sorted.length));
+    return sorted[rank - 1];
+}
+
+/**
+ * @notice Statistics over the samples that were measured; null when there are none
+ */
+export function latencyStats(samples: readonly (number | null)[]): LatencyStats | null {
+    const sorted = samples.filter((sample): sample is number => sample !== null).sort((a, b) => a - b);
+    if (sorted.length === 0) {
+        return null;
+    }
+    return {
+        count: sorted.length,
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+        p99: percentile(sorted, 99),
+        max: sorted[sorted.length - 1],
+        mean: Math.round(sorted.reduce((sum, sample) => sum + sample, 0) / sorted.length),
+    };
+}
+
+function csvField(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * @notice RFC 4180 CSV with a header row; null and undefined become empty fields
+ */
+export function toCsv<R extends object>(columns: readonly (keyof R & string)[], rows: readonly R[]): string {
+    const lines = [columns.join(",")];
+    for (const row of rows) {
+        lines.push(columns.map((column) => csvField(row[column])).join(","));
+    }
+    return `${lines.join("\n")}\n`;
+}
+
+/**
+ * @notice Write `<prefix>.json` (`report` as is) and `<prefix>.csv` (`rows`)
+ * @return The two paths written
+ */
+export function writeSamples<R extends object>(
+    prefix: string,
+    report: unknown,
+    columns: readonly (keyof R & string)[],
+    rows: readonly R[]
+): { json: string; csv: string } {
+    const paths = { json: `${prefix}.json`, csv: `${prefix}.csv` };
+    mkdirSync(dirname(paths.json), { recursive: true });
+    writeFileSync(paths.json, JSON.stringify(report, null, 2) + "\n");
+    writeFileSync(paths.csv, toCsv(columns, rows));
+    return paths;
+}
@@ -0,0 +1,130 @@
+/**
+ * @file mock-ws-server.ts
+ * @notice Local WebSocket JSON-RPC server implementing eth_subscribe / eth_unsubscribe, to exercise
+ *         ws-subscriptions.ts without a node
+ * @dev Notifications use the standard form:
+ *        { "jsonrpc": "2.0", "method": "eth_subscription", "params": { "subscription": id, "result": event } }
+ */
+
+import type { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+
+export class MockSubscriptionServer {
+    /** Every JSON-RPC request received, in order */
+    readonly requests: { method: string; params: unknown[] }[] = [];
+    private readonly subscriptions = new Map<string, { socket: WebSocket; topic: string }>();
+    private nextSubscription = 1;
+
+    private constructor(
+        private readonly server: WebSocketServer,
+        readonly url: string,
+        private readonly topics: ReadonlySet<string>
+    ) {
+        server.on("connection", (socket) => {
+            socket.on("message", (data) => this.handle(socket, data.toString()));
+            socket.on("close", () => {
+                for (const [id, subscription] of this.subscriptions) {
+                    if (subscription.socket === socket) {
+                        this.subscriptions.delete(id);
+                    }
+                }
+            });
+        });
+    }
+
+    /**
+     * @notice Listen on a free localhost port
+     * @param topics Topics eth_subscribe accepts; others get an error response
+     */
+    static async start(topics: readonly string[]): Promise<MockSubscriptionServer> {
+        const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+        await new Promise<void>((resolve, reject) => {
+            server.once("listening", resolve);
+            server.once("error", reject);
+        });
+        const { port } = server.address() as AddressInfo;
+        return new MockSubscriptionServer(server, `ws://127.0.0.1:${port}`, new Set(topics));
+    }
+
+    /** Subscriptions currently open, over all connections */
+    get activeSubscriptions(): number {
+        return this.subscriptions.size;
+    }
+
+    get connections(): number {
+        return this.server.clients.size;
+    }
+
+    /**
+     * @notice Notify every subscriber of `topic`
+     * @return Number of notifications sent
+     */
+    publish(topic: string, result: unknown): number {
+        let sent = 0;
+        for (const [id, subscription] of this.subscriptions) {
+            if (subscription.topic === topic) {
+                const params = { subscription: id, result };
+                subscription.socket.send(JSON.stringify({ jsonrpc: "2.0", method: "eth_subscription", params }));
+                sent++;
+            }
+        }
+        return sent;
+    }
+
+    /** Send `text` as is to every connection, e.g. to test malformed messages */
+    sendRaw(text: string): void {
+        for (const socket of this.server.clients) {
+            socket.send(text);
+        }
+    }
+
+    /** Drop every connection without a close handshake, as a crashed node or a network failure would */
+    dropConnections(): void {
+        for (const socket of this.server.clients) {
+            socket.terminate();
+        }
+    }
+
+    close(): Promise<void> {
+        this.dropConnections();
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+
+    private handle(socket: WebSocket, text: string): void {
+        let request: any;
+        try {
+            request = JSON.parse(text);
+        } catch {
+            socket.send(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }));
+            return;
+        }
+        const params: unknown[] = Array.isArray(request.params) ? request.params : [];
+        this.requests.push({ method: request.method, params });
+        const reply = (body: object) => socket.send(JSON.stringify({ jsonrpc: "2.0", id: request.id, ...body }));
+
+        switch (request.method) {
+            case "eth_subscribe": {
+                const topic = String(params[0]);
+                if (!this.topics.has(topic)) {
+                    reply({ error: { code: -32602, message: `unsupported subscription type ${topic}` } });
+                    return;
+                }
+                const id = `0x${(this.nextSubscription++).toString(16).padStart(32, "0")}`;
+                this.subscriptions.set(id, { socket, topic });
+                reply({ result: id });
+                return;
+            }
+            case "eth_unsubscribe": {
+                const id = String(params[0]);
+                const known = this.subscriptions.get(id)?.socket === socket;
+                if (known) {
+                    this.subscriptions.delete(id);
+                }
+                reply({ result: known });
+                return;
+            }
+            default:
+                reply({ error: { code: -32601, message: `method ${request.method} not found` } });
+        }
+    }
+}
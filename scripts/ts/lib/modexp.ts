@@ -0,0 +1,133 @@
+/**
+ * @file modexp.ts
+ * @notice Osaka ModExp precompile model: EIP-7883 pricing, EIP-7823 bounds and the expected output
+ * @dev EIP-7883 replaces the EIP-2565 formula:
+ *        - multiplication complexity is 16 up to 32 bytes, then 2 * ceil(max(Bsize, Msize) / 8)^2
+ *        - each exponent byte past the first 32 counts 16 iterations (was 8)
+ *        - the minimum cost is 500 gas (was 200); there is no divisor
+ *      EIP-7823 makes the call fail when any of the three declared lengths exceeds 1024 bytes.
+ */
+
+import { ethers } from "ethers";
+
+/** ModExp precompile address */
+export const MODEXP_ADDRESS = "0x0000000000000000000000000000000000000005";
+
+/** EIP-7823 upper bound on each of base, exponent and modulus length, in bytes */
+export const MODEXP_MAX_INPUT_LENGTH = 1024;
+
+/** EIP-7883 minimum cost */
+export const MODEXP_MIN_GAS = 500n;
+
+/** EIP-2565 minimum cost, charged before Osaka */
+export const MODEXP_MIN_GAS_EIP2565 = 200n;
+
+export interface ModExpInput {
+    base: string;
+    exponent: string;
+    modulus: string;
+}
+
+/**
+ * @notice Precompile calldata: Bsize || Esize || Msize (32 bytes each) || B || E || M
+ */
+export function encodeModExpInput(input: ModExpInput): string {
+    const { base, exponent, modulus } = input;
+    return ethers.concat([
+        ethers.toBeHex(ethers.dataLength(base), 32),
+        ethers.toBeHex(ethers.dataLength(exponent), 32),
+        ethers.toBeHex(ethers.dataLength(modulus), 32),
+        base,
+        exponent,
+        modulus,
+    ]);
+}
+
+/**
+ * @notice True when every length is within the EIP-7823 bound
+ */
+export function withinModExpBounds(input: ModExpInput): boolean {
+    return [input.base, input.exponent, input.modulus].every(
+        (value) => ethers.dataLength(value) <= MODEXP_MAX_INPUT_LENGTH
+    );
+}
+
+function multiplicationComplexity(baseLength: number, modulusLength: number): bigint {
+    const maxLength = BigInt(Math.max(baseLength, modulusLength));
+    if (maxLength <= 32n) {
+        return 16n;
+    }
+    const words = (maxLength + 7n) / 8n;
+    return 2n * words * words;
+}
+
+/**
+ * @dev A zero exponent head counts as bit length 0 here, as in geth and revm; the EIP's
+ *      reference code would subtract one more for exponents longer than 32 bytes.
+ * @param bytePasses Iterations counted per exponent byte past the first 32
+ */
+function iterationCount(exponent: string, bytePasses: bigint = 16n): bigint {
+    const length = ethers.dataLength(exponent);
+    const head = length === 0 ? 0n : BigInt(ethers.dataSlice(exponent, 0, Math.min(length, 32)));
+    const headBits = BigInt(head.toString(2).length);
+    let count = head === 0n ? 0n : headBits - 1n;
+    if (length > 32) {
+        count += bytePasses * BigInt(length - 32);
+    }
+    return count > 1n ? count : 1n;
+}
+
+/**
+ * @notice Gas charged by the Osaka ModExp precompile
+ * @return The cost, or null when EIP-7823 rejects the input
+ */
+export function modExpGas(input: ModExpInput): bigint | null {
+    if (!withinModExpBounds(input)) {
+        return null;
+    }
+    const complexity = multiplicationComplexity(ethers.dataLength(input.base), ethers.dataLength(input.modulus));
+    const gas = complexity * iterationCount(input.exponent);
+    return gas > MODEXP_MIN_GAS ? gas : MODEXP_MIN_GAS;
+}
+
+/**
+ * @notice Gas charged by the ModExp precompile before Osaka (EIP-2565)
+ * @dev Used to tell pre-fork pricing from Osaka pricing; EIP-2565 has no length bound.
+ */
+export function modExpGasEip2565(input: ModExpInput): bigint {
+    const maxLength = BigInt(Math.max(ethers.dataLength(input.base), ethers.dataLength(input.modulus)));
+    const words = (maxLength + 7n) / 8n;
+    const gas = (words * words * iterationCount(input.exponent, 8n)) / 3n;
+    return gas > MODEXP_MIN_GAS_EIP2565 ? gas : MODEXP_MIN_GAS_EIP2565;
+}
+
+/**
+ * @notice base^exponent mod modulus by square-and-multiply; 0 when modulus is 0
+ */
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    if (modulus === 0n) {
+        return 0n;
+    }
+    let result = 1n % modulus;
+    base %= modulus;
+    while (exponent > 0n) {
+        if (exponent & 1n) {
+            result = (result * base) % modulus;
+        }
+        base = (base * base) % modulus;
+        exponent >>= 1n;
+    }
+    return result;
+}
+
+/**
+ * @notice Expected precompile output: the result left-padded to the modulus length
+ */
+export function modExpOutput(input: ModExpInput): string {
+    const length = ethers.dataLength(input.modulus);
+    if (length === 0) {
+        return "0x";
+    }
+    const toInt = (value: string) => (ethers.dataLength(value) === 0 ? 0n : BigInt(value));
+    return ethers.toBeHex(modPow(toInt(input.base), toInt(input.exponent), toInt(input.modulus)), length);
+}
@@ -0,0 +1,146 @@
+/**
+ * @file networks.ts
+ * @notice Named network profiles (networks.json) and the per-network expectations they carry
+ * @dev A profile is selected with `--network <name>`. Its URLs replace ETH_RPC_URL / WS_RPC_URL,
+ *      and its EIP statuses, Osaka activation point and limits replace the values the probes
+ *      would otherwise assume for Etherlink.
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import { z } from "zod";
+import { REPO_ROOT } from "./artifacts.js";
+import { ConfigError } from "./env.js";
+import type { ScheduledFork } from "./fork-id.js";
+
+export const NETWORKS_PATH = join(REPO_ROOT, "networks.json");
+
+/**
+ * - enabled:  the EIP is active and its tests must see it in effect
+ * - disabled: the EIP is off; probes that can tell the difference check that it is not in effect
+ * - skipped:  the EIP's tests are not run
+ */
+const EipStatusSchema = z.enum(["enabled", "disabled", "skipped"]);
+export type EipStatus = z.infer<typeof EipStatusSchema>;
+
+const positiveInt = z.number().int().positive();
+const nonNegativeInt = z.number().int().nonnegative();
+
+const ScheduledForkSchema = z
+    .object({ name: z.string(), block: nonNegativeInt.optional(), time: nonNegativeInt.optional() })
+    .strict()
+    .refine((fork) => (fork.block === undefined) !== (fork.time === undefined), {
+        message: "a fork needs exactly one of block or time",
+    });
+
+const ProfileSchema = z
+    .object({
+        description: z.string().optional(),
+        rpcUrl: z.string().url(),
+        wsUrl: z.string().url().optional(),
+        chainId: positiveInt,
+        osaka: z
+            .object({
+                activationBlock: nonNegativeInt.nullable().default(null),
+                activationTime: nonNegativeInt.nullable().default(null),
+            })
+            .strict()
+            .default({}),
+        eips: z.record(z.string().regex(/^\d+$/, { message: "EIP keys must be numbers" }), EipStatusSchema).default({}),
+        limits: z
+            .object({
+                /** EIP-7825 per-transaction gas cap */
+                txGasCap: positiveInt.optional(),
+                /** EIP-7935 block gas limit */
+                blockGasLimit: positiveInt.optional(),
+                /** EIP-7934 RLP block size limit, in bytes */
+                maxRlpSize: positiveInt.optional(),
+            })
+            .strict()
+            .default({}),
+        /** Precompile addresses that differ from the Osaka defaults, by EIP-7910 name */
+        precompiles: z.record(z.string(), z.string().regex(/^0x[0-9a-fA-F]{40}$/)).default({}),
+        /** Forks activated after genesis, other than Osaka, for EIP-2124 fork IDs */
+        forks: z.array(ScheduledForkSchema).default([]),
+    })
+    .strict();
+
+const NetworksFileSchema = z.record(z.string(), ProfileSchema);
+
+export interface NetworkProfile {
+    name: string;
+    description: string | null;
+    rpcUrl: string;
+    /** Explicit WebSocket URL; when null the RPC URL with its scheme switched to ws(s) is used */
+    wsUrl: string | null;
+    chainId: bigint;
+    osaka: { activationBlock: bigint | null; activationTime: number | null };
+    eips: ReadonlyMap<number, EipStatus>;
+    limits: { txGasCap: bigint | null; blockGasLimit: bigint | null; maxRlpSize: bigint | null };
+    precompiles: Readonly<Record<string, string>>;
+    forks: readonly ScheduledFork[];
+}
+
+const toBigInt = (value: number | null | undefined) => (value === null || value === undefined ? null : BigInt(value));
+
+/**
+ * @notice Read and validate every profile in networks.json
+ */
+export function loadNetworks(path: string = NETWORKS_PATH): Map<string, NetworkProfile> {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (error: any) {
+        throw new ConfigError(`cannot read network profiles from ${path}: ${error.message}`);
+    }
+    const parsed = NetworksFileSchema.safeParse(raw);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+        throw new ConfigError(`invalid network profiles in ${path}: ${issues.join("; ")}`);
+    }
+
+    const networks = new Map<string, NetworkProfile>();
+    for (const [name, profile] of Object.entries(parsed.data)) {
+        networks.set(name, {
+            name,
+            description: profile.description ?? null,
+            rpcUrl: profile.rpcUrl,
+            wsUrl: profile.wsUrl ?? null,
+            chainId: BigInt(profile.chainId),
+            osaka: {
+                activationBlock: toBigInt(profile.osaka.activationBlock),
+                activationTime: profile.osaka.activationTime,
+            },
+            eips: new Map(Object.entries(profile.eips).map(([eip, status]) => [Number(eip), status])),
+            limits: {
+                txGasCap: toBigInt(profile.limits.txGasCap),
+                blockGasLimit: toBigInt(profile.limits.blockGasLimit),
+                maxRlpSize: toBigInt(profile.limits.maxRlpSize),
+            },
+            precompiles: profile.precompiles,
+            forks: profile.forks,
+        });
+    }
+    return networks;
+}
+
+/**
+ * @notice Profile selected by `--network <name>` in argv, or null when the flag is absent
+ */
+export function networkFromArgv(argv: string[]): NetworkProfile | null {
+    const args = parseArgs({ args: argv, options: { network: { type: "string" } }, strict: false });
+    const name = args.values.network;
+    if (name === undefined) {
+        return null;
+    }
+    if (typeof name !== "string") {
+        throw new ConfigError("--network requires a profile name");
+    }
+    const networks = loadNetworks();
+    const profile = networks.get(name);
+    if (!profile) {
+        throw new ConfigError(`unknown network "${name}" (known: ${[...networks.keys()].join(", ")})`);
+    }
+    return profile;
+}
@@ -0,0 +1,173 @@
+/**
+ * @file p256.ts
+ * @notice secp256r1 (P-256) test vectors for the P256VERIFY precompile (EIP-7951)
+ * @dev Three sources:
+ *        - generated:  keys and signatures made locally with Node's crypto module (all valid)
+ *        - edge-case:  the EIP-7951 input checks applied to a generated signature
+ *        - wycheproof: ecdsa_secp256r1_sha256_p1363_test.json from the Wycheproof project
+ *      Every field is a 32-byte hex string, ready for the precompile's 160-byte input.
+ */
+
+import { createHash, generateKeyPairSync, randomBytes, sign } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { ethers } from "ethers";
+import { REPO_ROOT } from "./artifacts.js";
+
+/** Curve order */
+export const P256_N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+/** Field prime */
+export const P256_P = 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn;
+
+/** EIP-7951 precompile address */
+export const P256VERIFY_ADDRESS = "0x0000000000000000000000000000000000000100";
+
+/** EIP-7951 precompile cost, charged for every call */
+export const P256VERIFY_GAS = 3450n;
+
+/** Where `npm run vectors:wycheproof` stores the Wycheproof file */
+export const WYCHEPROOF_PATH = join(REPO_ROOT, "test/vectors/wycheproof/ecdsa_secp256r1_sha256_p1363_test.json");
+
+export type P256VectorSource = "generated" | "edge-case" | "wycheproof";
+
+export interface P256Vector {
+    /** Unique within the run, e.g. "wycheproof/42" */
+    id: string;
+    source: P256VectorSource;
+    comment: string;
+    x: string;
+    y: string;
+    hash: string;
+    r: string;
+    s: string;
+    /** True if P256VERIFY must return 1 */
+    expected: boolean;
+}
+
+const word = (value: bigint) => ethers.toBeHex(value, 32);
+
+function fromBase64Url(value: string): string {
+    return ethers.hexlify(Buffer.from(value, "base64url"));
+}
+
+/**
+ * @notice 160-byte precompile input: x || y || hash || r || s
+ */
+export function packInput(vector: P256Vector): string {
+    return ethers.concat([vector.x, vector.y, vector.hash, vector.r, vector.s]);
+}
+
+/**
+ * @notice Fresh key pairs, each signing a random message
+ * @param count Number of vectors
+ */
+export function generateVectors(count: number): P256Vector[] {
+    const vectors: P256Vector[] = [];
+    for (let i = 0; i < count; i++) {
+        const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+        const jwk = publicKey.export({ format: "jwk" });
+        const message = randomBytes(32 + i);
+        const signature = sign("sha256", message, { key: privateKey, dsaEncoding: "ieee-p1363" });
+        vectors.push({
+            id: `generated/${i}`,
+            source: "generated",
+            comment: `random key, ${message.length}-byte message`,
+            x: fromBase64Url(jwk.x!),
+            y: fromBase64Url(jwk.y!),
+            hash: ethers.hexlify(createHash("sha256").update(message).digest()),
+            r: ethers.hexlify(signature.subarray(0, 32)),
+            s: ethers.hexlify(signature.subarray(32)),
+            expected: true,
+        });
+    }
+    return vectors;
+}
+
+/**
+ * @notice EIP-7951 edge cases derived from one valid signature
+ * @dev The precompile rejects r or s outside [1, n-1], public keys off the curve or at infinity,
+ *      and coordinates outside [0, p-1]. It does not require low s, so (r, n - s) still verifies.
+ */
+export function edgeCaseVectors(base: P256Vector): P256Vector[] {
+    const r = BigInt(base.r);
+    const s = BigInt(base.s);
+    const y = BigInt(base.y);
+    const cases: [string, Partial<P256Vector>, boolean][] = [
+        ["r = 0", { r: word(0n) }, false],
+        ["s = 0", { s: word(0n) }, false],
+        ["r = n", { r: word(P256_N) }, false],
+        ["s = n", { s: word(P256_N) }, false],
+        ["r = 2^256 - 1", { r: word(ethers.MaxUint256) }, false],
+        ["s = 2^256 - 1", { s: word(ethers.MaxUint256) }, false],
+        ["high s (n - s)", { s: word(P256_N - s) }, true],
+        ["public key not on the curve (y + 1)", { y: word((y + 1n) % P256_P) }, false],
+        ["public key at infinity (0, 0)", { x: word(0n), y: word(0n) }, false],
+        ["x = p", { x: word(P256_P) }, false],
+        ["message hash changed", { hash: word(BigInt(base.hash) ^ 1n) }, false],
+        ["r and s swapped", { r: base.s, s: base.r }, false],
+    ];
+    if (r + P256_N <= ethers.MaxUint256) {
+        cases.push(["r + n (same x mod n)", { r: word(r + P256_N) }, false]);
+    }
+    return cases.map(([comment, fields, expected], i) => ({
+        ...base,
+        ...fields,
+        id: `edge-case/${i}`,
+        source: "edge-case",
+        comment,
+        expected,
+    }));
+}
+
+interface WycheproofFile {
+    testGroups: {
+        publicKey: { wx: string; wy: string };
+        sha: string;
+        tests: { tcId: number; comment: string; msg: string; sig: string; result: "valid" | "invalid" | "acceptable" }[];
+    }[];
+}
+
+export interface WycheproofVectors {
+    vectors: P256Vector[];
+    /** Tests that cannot be expressed as a precompile input (signature not 64 bytes, "acceptable" results) */
+    skipped: number;
+}
+
+/**
+ * @notice Load a Wycheproof ECDSA P-256 / SHA-256 file in IEEE P1363 signature format
+ * @return The vectors, or null if the file does not exist
+ */
+export function loadWycheproof(path: string): WycheproofVectors | null {
+    if (!existsSync(path)) {
+        return null;
+    }
+    const file = JSON.parse(readFileSync(path, "utf-8")) as WycheproofFile;
+    const vectors: P256Vector[] = [];
+    let skipped = 0;
+    for (const group of file.testGroups) {
+        if (group.sha !== "SHA-256") {
+            skipped += group.tests.length;
+            continue;
+        }
+        const x = word(BigInt("0x" + group.publicKey.wx));
+        const y = word(BigInt("0x" + group.publicKey.wy));
+        for (const test of group.tests) {
+            if (test.result === "acceptable" || test.sig.length !== 128) {
+                skipped++;
+                continue;
+            }
+            vectors.push({
+                id: `wycheproof/${test.tcId}`,
+                source: "wycheproof",
+                comment: test.comment,
+                x,
+                y,
+                hash: ethers.hexlify(createHash("sha256").update(Buffer.from(test.msg, "hex")).digest()),
+                r: "0x" + test.sig.slice(0, 64),
+                s: "0x" + test.sig.slice(64),
+                expected: test.result === "valid",
+            });
+        }
+    }
+    return { vectors, skipped };
+}
@@ -0,0 +1,66 @@
+/**
+ * @file precompile-call.ts
+ * @notice Call a precompile with an exact gas allowance, without deploying anything
+ * @dev The call runs inside initcode passed to eth_call (a call without `to`), so no wrapper
+ *      contract adds its own gas to the measurement. Calling once with a precompile's expected
+ *      cost and once with one gas less pins the price exactly: the first must succeed, the
+ *      second must run out of gas.
+ */
+
+import { ethers } from "ethers";
+import { assemble, callInitcode } from "./evm-asm.js";
+
+export interface StaticcallOutcome {
+    success: boolean;
+    /** Gas the call consumed; equals the forwarded gas when the precompile failed */
+    gasUsed: bigint;
+    returnData: string;
+}
+
+/**
+ * Gas between the two GAS readings that is not the callee's: six pushes (18), the warm
+ * STATICCALL access (100) and the second GAS (2)
+ */
+const CALL_OVERHEAD = 120;
+
+/**
+ * @notice Initcode that STATICCALLs `address` with `input` and exactly `gas` gas
+ * @dev Returns `success (32 bytes) || gas used (32 bytes) || return data`.
+ */
+function staticcallInitcode(address: string, input: string, gas: bigint): string {
+    const size = ethers.dataLength(input);
+    const code = (dataOffset: number) =>
+        assemble([
+            ["PUSH2", size], ["PUSH2", dataOffset], ["PUSH1", 0], "CODECOPY", // input to memory
+            "GAS",
+            ["PUSH1", 0], ["PUSH1", 0], ["PUSH2", size], ["PUSH1", 0], // no return buffer, args at 0
+            ["PUSH20", address], ["PUSH4", gas], "STATICCALL",
+            "GAS",
+            "SWAP1", ["PUSH1", 0], "MSTORE", // mem[0x00] = success
+            "SWAP1", "SUB", ["PUSH1", CALL_OVERHEAD], "SWAP1", "SUB", // before - after - overhead
+            ["PUSH1", 0x20], "MSTORE", // mem[0x20] = gas used
+            "RETURNDATASIZE", ["PUSH1", 0], ["PUSH1", 0x40], "RETURNDATACOPY",
+            "RETURNDATASIZE", ["PUSH1", 0x40], "ADD", ["PUSH1", 0], "RETURN",
+        ]);
+    return ethers.concat([code(ethers.dataLength(code(0))), input]);
+}
+
+/**
+ * @notice STATICCALL `address` with exactly `gas` gas, through eth_call
+ * @param gas Gas forwarded to the precompile; must fit in 32 bits
+ * @param block Block tag or hex block number to run the call at
+ */
+export async function staticcallWithGas(
+    provider: ethers.JsonRpcProvider,
+    address: string,
+    input: string,
+    gas: bigint,
+    block: string = "latest"
+): Promise<StaticcallOutcome> {
+    const result = await callInitcode(provider, staticcallInitcode(address, input, gas), block);
+    return {
+        success: BigInt(ethers.dataSlice(result, 0, 32)) === 1n,
+        gasUsed: BigInt(ethers.dataSlice(result, 32, 64)),
+        returnData: ethers.dataSlice(result, 64),
+    };
+}
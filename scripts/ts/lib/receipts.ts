@@ -0,0 +1,209 @@
+/**
+ * @file receipts.ts
+ * @notice Raw transaction receipts, waiting for a final receipt, field-by-field comparison of
+ *         a preconfirmation receipt with the final one, and inclusion order checks
+ * @dev A preconfirmation receipt (eth_sendRawTransactionSync in "pending" mode, or a
+ *      tez_newPreconfirmedReceipts event) describes the execution before the block exists: its
+ *      blockHash is the zero placeholder and its blockNumber may be null. Everything else should
+ *      already be what the final receipt says.
+ */
+
+import { ethers } from "ethers";
+
+export interface RpcLog {
+    address: string;
+    topics: string[];
+    data: string;
+    logIndex: string;
+    transactionIndex: string;
+    transactionHash: string;
+    blockHash: string | null;
+    blockNumber: string | null;
+}
+
+/** Receipt as the node returns it, quantities as hex strings */
+export interface RpcReceipt {
+    blockHash: string;
+    blockNumber: string | null;
+    transactionHash: string;
+    transactionIndex: string;
+    from: string;
+    to: string | null;
+    gasUsed: string;
+    cumulativeGasUsed: string;
+    status: string;
+    logs: RpcLog[];
+    logsBloom: string;
+    contractAddress: string | null;
+}
+
+/** A receipt whose block exists: a block number and a real block hash */
+export const isFinalReceipt = (receipt: RpcReceipt): boolean =>
+    receipt.blockNumber !== null && receipt.blockHash !== ethers.ZeroHash;
+
+/**
+ * @notice Poll eth_getTransactionReceipt until it returns a final receipt, or until `deadline`
+ * @dev Raw calls: ethers would serve a repeated null result from its 250 ms cache. Nodes may
+ *      answer with the preconfirmation receipt before the block exists; that does not count.
+ * @param deadline Date.now() value to give up at
+ * @return The final receipt, or null on timeout
+ */
+export async function waitForFinalReceipt(
+    provider: ethers.JsonRpcProvider,
+    txHash: string,
+    deadline: number,
+    pollMs: number = 100
+): Promise<RpcReceipt | null> {
+    while (Date.now() < deadline) {
+        const receipt: RpcReceipt | null = await provider.send("eth_getTransactionReceipt", [txHash]);
+        if (receipt && isFinalReceipt(receipt)) {
+            return receipt;
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+    return null;
+}
+
+export interface ReceiptDifference {
+    /** Receipt field, e.g. "gasUsed" or "logs[1].topics" */
+    field: string;
+    preconfirmed: unknown;
+    final: unknown;
+}
+
+const quantity = (value: string | null) => (value === null ? null : ethers.toBigInt(value));
+const address = (value: string | null) => (value === null ? null : value.toLowerCase());
+const hex = (value: string) => value.toLowerCase();
+
+/**
+ * @notice Every field in which `final` disagrees with `preconfirmed`, plus final-receipt fields
+ *         that still carry the placeholder block
+ * @dev Compared: transactionHash, status, gasUsed, cumulativeGasUsed, transactionIndex, from, to,
+ *      contractAddress, logsBloom and each log's address, topics, data, logIndex and
+ *      transactionIndex. Block hash and number are expected to differ; the final ones, including
+ *      each log's blockHash, must be real.
+ * @return Empty when the receipts are consistent
+ */
+export function compareReceipts(preconfirmed: RpcReceipt, final: RpcReceipt): ReceiptDifference[] {
+    const differences: ReceiptDifference[] = [];
+    const check = <T>(field: string, normalize: (value: any) => T, pre: unknown, fin: unknown) => {
+        if (normalize(pre) !== normalize(fin)) {
+            differences.push({ field, preconfirmed: pre, final: fin });
+        }
+    };
+
+    check("transactionHash", hex, preconfirmed.transactionHash, final.transactionHash);
+    check("status", quantity, preconfirmed.status, final.status);
+    check("gasUsed", quantity, preconfirmed.gasUsed, final.gasUsed);
+    check("cumulativeGasUsed", quantity, preconfirmed.cumulativeGasUsed, final.cumulativeGasUsed);
+    check("transactionIndex", quantity, preconfirmed.transactionIndex, final.transactionIndex);
+    check("from", address, preconfirmed.from, final.from);
+    check("to", address, preconfirmed.to, final.to);
+    check("contractAddress", address, preconfirmed.contractAddress, final.contractAddress);
+    check("logsBloom", hex, preconfirmed.logsBloom, final.logsBloom);
+
+    if (final.blockHash === ethers.ZeroHash || final.blockNumber === null) {
+        differences.push({
+            field: "blockHash",
+            preconfirmed: preconfirmed.blockHash,
+            final: `${final.blockHash} (block ${final.blockNumber}): placeholder not replaced`,
+        });
+    }
+
+    check("logs.length", (value: number) => value, preconfirmed.logs.length, final.logs.length);
+    const count = Math.min(preconfirmed.logs.length, final.logs.length);
+    for (let i = 0; i < count; i++) {
+        const pre = preconfirmed.logs[i];
+        const fin = final.logs[i];
+        const topics = (value: string[]) => value.map(hex).join(",");
+        check(`logs[${i}].address`, address, pre.address, fin.address);
+        check(`logs[${i}].topics`, topics, pre.topics, fin.topics);
+        check(`logs[${i}].data`, hex, pre.data, fin.data);
+        check(`logs[${i}].logIndex`, quantity, pre.logIndex, fin.logIndex);
+        check(`logs[${i}].transactionIndex`, quantity, pre.transactionIndex, fin.transactionIndex);
+        if (fin.blockHash === null || fin.blockHash.toLowerCase() !== final.blockHash.toLowerCase()) {
+            differences.push({
+                field: `logs[${i}].blockHash`,
+                preconfirmed: pre.blockHash,
+                final: `${fin.blockHash} (receipt block ${final.blockHash})`,
+            });
+        }
+    }
+    return differences;
+}
+
+/**
+ * @notice Print how the final receipt compares with the preconfirmation
+ * @return Number of fields that differ
+ */
+export function reportConsistency(preconfirmed: RpcReceipt, final: RpcReceipt): number {
+    const differences = compareReceipts(preconfirmed, final);
+    if (differences.length === 0) {
+        console.log(`  ✓ Final receipt (block ${Number(final.blockNumber)}) matches the preconfirmation`);
+    }
+    for (const difference of differences) {
+        const [pre, fin] = [difference.preconfirmed, difference.final].map((value) => JSON.stringify(value));
+        console.error(`  ✗ ${difference.field} differs: preconfirmed ${pre}, final ${fin}`);
+    }
+    return differences.length;
+}
+
+/** A transaction sent in a scenario, with both of its receipts */
+export interface PreconfirmedTransaction {
+    from: string;
+    nonce: number;
+    preconfirmed: RpcReceipt;
+    final: RpcReceipt;
+}
+
+/**
+ * @notice Every way the final inclusion order departs from what the preconfirmations promised
+ * @dev Checked: a preconfirmation that names a block names the final one; no two preconfirmations
+ *      claim the same block and index; each sender's transactions are included in nonce order.
+ *      The transaction index itself is compared by compareReceipts.
+ * @return One message per problem; empty when the order holds
+ */
+export function inclusionOrderIssues(transactions: PreconfirmedTransaction[]): string[] {
+    const issues: string[] = [];
+    const position = (receipt: RpcReceipt) => [Number(receipt.blockNumber), Number(receipt.transactionIndex)];
+    const claimed = new Map<string, string>();
+    for (const { preconfirmed, final } of transactions) {
+        const hash = final.transactionHash;
+        if (preconfirmed.blockNumber !== null && Number(preconfirmed.blockNumber) !== Number(final.blockNumber)) {
+            issues.push(
+                `${hash}: preconfirmed for block ${Number(preconfirmed.blockNumber)}, ` +
+                    `included in block ${Number(final.blockNumber)}`
+            );
+        }
+        // Without a block number, the index refers to whichever block was being built at the time
+        if (preconfirmed.blockNumber === null) {
+            continue;
+        }
+        const slot = `${Number(preconfirmed.blockNumber)}:${Number(preconfirmed.transactionIndex)}`;
+        const other = claimed.get(slot);
+        if (other) {
+            issues.push(`${hash}: preconfirmed at the same position (${slot}) as ${other}`);
+        }
+        claimed.set(slot, hash);
+    }
+
+    const bySender = new Map<string, PreconfirmedTransaction[]>();
+    for (const transaction of transactions) {
+        const from = transaction.from.toLowerCase();
+        bySender.set(from, [...(bySender.get(from) ?? []), transaction]);
+    }
+    for (const [from, sent] of bySender) {
+        const ordered = sent.sort((a, b) => a.nonce - b.nonce);
+        for (let i = 1; i < ordered.length; i++) {
+            const [prevBlock, prevIndex] = position(ordered[i - 1].final);
+            const [block, index] = position(ordered[i].final);
+            if (block < prevBlock || (block === prevBlock && index <= prevIndex)) {
+                issues.push(
+                    `${from}: nonce ${ordered[i].nonce} included at ${block}:${index}, ` +
+                        `not after nonce ${ordered[i - 1].nonce} at ${prevBlock}:${prevIndex}`
+                );
+            }
+        }
+    }
+    return issues;
+}
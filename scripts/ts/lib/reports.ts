@@ -0,0 +1,122 @@
+/**
+ * @file reports.ts
+ * @notice Machine-readable JSON and JUnit XML reports of a test run
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { summarize, type TestResult, type TestStatus } from "./harness.js";
+
+export interface RunReport {
+    startedAt: string;
+    durationMs: number;
+    /** RPC endpoint the run was pointed at, if any */
+    rpcUrl: string | null;
+    /** Network profile selected with --network, if any */
+    network: string | null;
+    summary: Record<TestStatus, number>;
+    results: TestResult[];
+}
+
+export function buildReport(
+    results: TestResult[],
+    startedAt: Date,
+    rpcUrl: string | null,
+    network: string | null = null
+): RunReport {
+    return {
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        rpcUrl,
+        network,
+        summary: summarize(results),
+        results,
+    };
+}
+
+function writeFile(path: string, contents: string): void {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, contents);
+}
+
+export function writeJsonReport(path: string, report: RunReport): void {
+    writeFile(path, JSON.stringify(report, null, 2) + "\n");
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(3);
+}
+
+/** `<properties>` block for a test's recorded details, values as JSON */
+function properties(result: TestResult): string[] {
+    const entries = Object.entries(result.details ?? {});
+    if (entries.length === 0) {
+        return [];
+    }
+    return [
+        `      <properties>`,
+        ...entries.map(
+            ([name, value]) => `        <property name="${escapeXml(name)}" value="${escapeXml(JSON.stringify(value))}"/>`
+        ),
+        `      </properties>`,
+    ];
+}
+
+/**
+ * @notice Render a report as JUnit XML, one <testsuite> per harness suite
+ */
+export function toJUnitXml(report: RunReport): string {
+    const bySuite = new Map<string, TestResult[]>();
+    for (const result of report.results) {
+        const list = bySuite.get(result.suite) ?? [];
+        list.push(result);
+        bySuite.set(result.suite, list);
+    }
+
+    const lines = [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<testsuites name="osaka-suite" tests="${report.results.length}" failures="${report.summary.fail}" ` +
+            `skipped="${report.summary.skip}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`,
+    ];
+    for (const [suite, results] of bySuite) {
+        const counts = summarize(results);
+        const time = results.reduce((total, result) => total + result.durationMs, 0);
+        lines.push(
+            `  <testsuite name="${escapeXml(suite)}" tests="${results.length}" failures="${counts.fail}" ` +
+                `skipped="${counts.skip}" time="${seconds(time)}">`
+        );
+        for (const result of results) {
+            const open =
+                `    <testcase classname="${escapeXml(suite)}" name="${escapeXml(result.id)}" ` +
+                `time="${seconds(result.durationMs)}"`;
+            const message = escapeXml(result.reason ?? "");
+            const children = properties(result);
+            if (result.status === "fail") {
+                children.push(`      <failure message="${message}">${escapeXml(result.title)}</failure>`);
+            } else if (result.status === "skip") {
+                children.push(`      <skipped message="${message}"/>`);
+            }
+            if (children.length > 0) {
+                lines.push(`${open}>`, ...children, `    </testcase>`);
+            } else {
+                lines.push(`${open}/>`);
+            }
+        }
+        lines.push(`  </testsuite>`);
+    }
+    lines.push(`</testsuites>`);
+    return lines.join("\n") + "\n";
+}
+
+export function writeJUnitReport(path: string, report: RunReport): void {
+    writeFile(path, toJUnitXml(report));
+}
@@ -0,0 +1,80 @@
+/**
+ * @file rpc.ts
+ * @notice Helpers for interpreting JSON-RPC errors surfaced by ethers
+ */
+
+/**
+ * @notice True if the node answered "method not found" (-32601)
+ * @dev ethers wraps the JSON-RPC error differently depending on the transport and version
+ */
+export function isMethodNotFound(error: any): boolean {
+    return (
+        error?.code === "METHOD_NOT_FOUND" ||
+        error?.error?.code === -32601 ||
+        error?.info?.error?.code === -32601 ||
+        (typeof error?.message === "string" && error.message.toLowerCase().includes("method not found"))
+    );
+}
+
+export interface RpcError {
+    /** JSON-RPC error code, if the node returned one */
+    code: number | null;
+    message: string;
+}
+
+/**
+ * @notice Extract the node's JSON-RPC error code and message from an ethers error
+ */
+export function rpcErrorOf(error: any): RpcError {
+    const inner = error?.info?.error ?? error?.error;
+    if (inner && typeof inner.message === "string") {
+        return { code: typeof inner.code === "number" ? inner.code : null, message: inner.message };
+    }
+    return { code: null, message: error?.shortMessage ?? error?.message ?? String(error) };
+}
+
+/** Why a node refused a transaction or call, as far as its error text tells */
+export type RejectionCategory =
+    | "rpc-body-limit"
+    | "txpool-size-limit"
+    | "gas-limit"
+    | "insufficient-funds"
+    | "nonce-too-low"
+    | "nonce-gap"
+    | "replacement-underpriced"
+    | "already-known"
+    | "other";
+
+/**
+ * @notice Sort a rejection into a category by the node's error code, message and HTTP status
+ * @dev The RPC body limit is checked first: an oversized request never reaches the txpool
+ */
+export function categorizeRejection(error: any): RejectionCategory {
+    const { message } = rpcErrorOf(error);
+    const text = `${message} ${error?.info?.responseStatus ?? ""}`;
+    if (/\b413\b|entity too large|body (limit|too large)|request too large|content.?length/i.test(text)) {
+        return "rpc-body-limit";
+    }
+    if (/oversized|too large|transaction size|exceeds .*size|max.*size/i.test(text)) {
+        return "txpool-size-limit";
+    }
+    if (/gas limit|gas too high|intrinsic gas|out of gas|gas required exceeds|exceeds block gas/i.test(text)) {
+        return "gas-limit";
+    }
+    if (/insufficient funds/i.test(text)) {
+        return "insufficient-funds";
+    }
+    if (/nonce too low|nonce has already been used|old nonce/i.test(text)) {
+        return "nonce-too-low";
+    }
+    if (/nonce too high|nonce gap|gapped nonce|future nonce|nonce .*(ahead|in the future)/i.test(text)) {
+        return "nonce-gap";
+    }
+    if (/underpriced/i.test(text)) {
+        return "replacement-underpriced";
+    }
+    if (/already known|already imported|known transaction/i.test(text)) {
+        return "already-known";
+    }
+    return "other";
+}
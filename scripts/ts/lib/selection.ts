@@ -0,0 +1,73 @@
+/**
+ * @file selection.ts
+ * @notice `--only` / `--skip` test selection for the osaka-suite runner
+ * @dev A selector is one of:
+ *        - an EIP number: "7939" or "eip-7939"
+ *        - a suite id:    "eth-config"
+ *        - a test id:     "eth-config/fork-ids"
+ */
+
+import type { Suite, TestSpec } from "./harness.js";
+
+export interface Selection {
+    only: string[];
+    skip: string[];
+}
+
+/**
+ * @notice Split repeated, comma-separated selector flags into a flat list
+ */
+export function parseSelectors(values: (string | boolean)[] | undefined): string[] {
+    return (values ?? [])
+        .filter((value): value is string => typeof value === "string")
+        .flatMap((value) => value.split(","))
+        .map((value) => value.trim().toLowerCase())
+        .filter((value) => value.length > 0);
+}
+
+function eipNumber(selector: string): number | null {
+    const match = /^(?:eip-?)?(\d+)$/.exec(selector);
+    return match ? Number(match[1]) : null;
+}
+
+function matchesTest(selector: string, suite: Suite, spec: TestSpec): boolean {
+    const eip = eipNumber(selector);
+    if (eip !== null) {
+        return (spec.eips ?? suite.eips).includes(eip);
+    }
+    return selector === suite.id || selector === `${suite.id}/${spec.id}`;
+}
+
+/** Relies on every test's EIPs being among its suite's EIPs, which Harness.test enforces */
+function mayMatchSuite(selector: string, suite: Suite): boolean {
+    const eip = eipNumber(selector);
+    if (eip !== null) {
+        return suite.eips.includes(eip);
+    }
+    return selector === suite.id || selector.startsWith(`${suite.id}/`);
+}
+
+/**
+ * @notice Whether a suite has to be started at all
+ * @dev Avoids suite setup (RPC connection, funded wallet) when no test of it can be selected
+ */
+export function suiteSelected(selection: Selection, suite: Suite): boolean {
+    if (selection.skip.includes(suite.id)) {
+        return false;
+    }
+    return selection.only.length === 0 || selection.only.some((selector) => mayMatchSuite(selector, suite));
+}
+
+/**
+ * @notice Whether a single test runs
+ * @dev Prerequisite tests ignore `--only` so that the tests depending on them can still run
+ */
+export function testSelected(selection: Selection, suite: Suite, spec: TestSpec): boolean {
+    if (selection.skip.some((selector) => matchesTest(selector, suite, spec))) {
+        return false;
+    }
+    if (selection.only.length === 0 || spec.prerequisite) {
+        return true;
+    }
+    return selection.only.some((selector) => matchesTest(selector, suite, spec));
+}
@@ -0,0 +1,65 @@
+/**
+ * @file typed-contract.ts
+ * @notice Types behind the generated contract bindings in scripts/ts/bindings
+ * @dev A binding describes each ABI function as { inputs; outputs; mutability } and each event
+ *      as its argument object. TypedContract<F, E> turns that description into the methods
+ *      ethers.Contract creates at runtime, so a misspelled method or a wrong argument fails
+ *      the type-check instead of the test run.
+ */
+
+import { ethers } from "ethers";
+
+export interface FunctionSpec {
+    /** Argument types, as a labelled tuple */
+    inputs: unknown[];
+    /** Decoded return value: void, a single value, or a labelled tuple */
+    outputs: unknown;
+    mutability: "pure" | "view" | "nonpayable" | "payable";
+}
+
+export type FunctionMap = Record<string, FunctionSpec>;
+export type EventMap = Record<string, Record<string, unknown>>;
+
+/** A view or pure function: calling it resolves to its decoded return value */
+export interface ViewMethod<A extends unknown[], R> {
+    (...args: A): Promise<R>;
+    (...args: [...A, ethers.Overrides]): Promise<R>;
+    staticCall(...args: A): Promise<R>;
+    estimateGas(...args: A): Promise<bigint>;
+    populateTransaction(...args: A): Promise<ethers.ContractTransaction>;
+}
+
+/** A state-changing function: calling it sends a transaction */
+export interface SendMethod<A extends unknown[], R> {
+    (...args: A): Promise<ethers.ContractTransactionResponse>;
+    (...args: [...A, ethers.Overrides]): Promise<ethers.ContractTransactionResponse>;
+    staticCall(...args: A): Promise<R>;
+    estimateGas(...args: A): Promise<bigint>;
+    populateTransaction(...args: A): Promise<ethers.ContractTransaction>;
+}
+
+type Method<S extends FunctionSpec> = S["mutability"] extends "pure" | "view"
+    ? ViewMethod<S["inputs"], S["outputs"]>
+    : SendMethod<S["inputs"], S["outputs"]>;
+
+/** ethers.Interface with encoders and decoders narrowed to the contract's functions and events */
+export interface TypedInterface<F extends FunctionMap, E extends EventMap> extends ethers.Interface {
+    encodeFunctionData<K extends keyof F & string>(fragment: K, values: F[K]["inputs"]): string;
+    decodeEventLog<K extends keyof E & string>(
+        fragment: K,
+        data: ethers.BytesLike,
+        topics?: readonly ethers.BytesLike[]
+    ): ethers.Result & E[K];
+}
+
+export type TypedContract<F extends FunctionMap, E extends EventMap = {}> = Omit<ethers.BaseContract, "interface"> & {
+    readonly interface: TypedInterface<F, E>;
+} & { readonly [K in keyof F]: Method<F[K]> };
+
+/**
+ * @notice Typed handle on a contract already deployed at `address`
+ * @param abi Human-readable ABI from the binding
+ */
+export function attachTyped<C>(address: string, abi: readonly string[], runner: ethers.ContractRunner | null): C {
+    return new ethers.Contract(address, abi as string[], runner) as unknown as C;
+}
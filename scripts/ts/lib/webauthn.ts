@@ -0,0 +1,150 @@
+/**
+ * @file webauthn.ts
+ * @notice Software WebAuthn authenticator: P-256 passkeys and the assertions they sign
+ * @dev An assertion signature covers `authenticatorData || sha256(clientDataJSON)` with
+ *      ECDSA P-256 / SHA-256, DER-encoded. Passkey wallets hand the precompile
+ *      sha256(authenticatorData || sha256(clientDataJSON)) as the message hash, with r and s
+ *      decoded from the DER signature.
+ */
+
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from "crypto";
+import { ethers } from "ethers";
+
+/** authenticatorData flags (WebAuthn §6.1) */
+export const FLAG_USER_PRESENT = 0x01;
+export const FLAG_USER_VERIFIED = 0x04;
+
+export interface Passkey {
+    credentialId: string;
+    rpId: string;
+    /** Public key coordinates, 32 bytes each */
+    x: string;
+    y: string;
+    /** Signature counter, incremented by every assertion */
+    signCount: number;
+    privateKey: KeyObject;
+}
+
+export interface WebAuthnAssertion {
+    credentialId: string;
+    authenticatorData: string;
+    clientDataJSON: string;
+    /** DER-encoded ECDSA signature, as returned by navigator.credentials.get() */
+    signature: string;
+}
+
+const sha256 = (data: ethers.BytesLike) => ethers.hexlify(createHash("sha256").update(ethers.getBytes(data)).digest());
+
+const base64url = (data: ethers.BytesLike) => Buffer.from(ethers.getBytes(data)).toString("base64url");
+
+/**
+ * @notice Create a resident P-256 credential for `rpId`
+ */
+export function createPasskey(rpId: string): Passkey {
+    const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+    const jwk = publicKey.export({ format: "jwk" });
+    return {
+        credentialId: ethers.hexlify(randomBytes(16)),
+        rpId,
+        x: ethers.hexlify(Buffer.from(jwk.x!, "base64url")),
+        y: ethers.hexlify(Buffer.from(jwk.y!, "base64url")),
+        signCount: 0,
+        privateKey,
+    };
+}
+
+/**
+ * @notice Sign `challenge` the way a platform authenticator answers navigator.credentials.get()
+ * @param flags authenticatorData flags; user presence and verification by default
+ */
+export function getAssertion(
+    passkey: Passkey,
+    challenge: ethers.BytesLike,
+    origin: string,
+    flags: number = FLAG_USER_PRESENT | FLAG_USER_VERIFIED
+): WebAuthnAssertion {
+    passkey.signCount++;
+    const authenticatorData = ethers.concat([
+        sha256(ethers.toUtf8Bytes(passkey.rpId)),
+        ethers.toBeHex(flags, 1),
+        ethers.toBeHex(passkey.signCount, 4),
+    ]);
+    const clientDataJSON = JSON.stringify({
+        type: "webauthn.get",
+        challenge: base64url(challenge),
+        origin,
+        crossOrigin: false,
+    });
+    const signed = ethers.concat([authenticatorData, sha256(ethers.toUtf8Bytes(clientDataJSON))]);
+    const signature = sign("sha256", ethers.getBytes(signed), { key: passkey.privateKey, dsaEncoding: "der" });
+    return {
+        credentialId: passkey.credentialId,
+        authenticatorData,
+        clientDataJSON,
+        signature: ethers.hexlify(signature),
+    };
+}
+
+/**
+ * @notice Message hash given to P256VERIFY: sha256(authenticatorData || sha256(clientDataJSON))
+ */
+export function assertionMessageHash(assertion: WebAuthnAssertion): string {
+    return sha256(ethers.concat([assertion.authenticatorData, sha256(ethers.toUtf8Bytes(assertion.clientDataJSON))]));
+}
+
+/**
+ * @notice Split a DER ECDSA signature into 32-byte r and s
+ */
+export function decodeDerSignature(signature: string): { r: string; s: string } {
+    const der = ethers.getBytes(signature);
+    const integer = (offset: number): [bigint, number] => {
+        if (der[offset] !== 0x02) {
+            throw new Error(`malformed DER signature: expected INTEGER at byte ${offset}`);
+        }
+        const length = der[offset + 1];
+        const end = offset + 2 + length;
+        return [ethers.toBigInt(der.subarray(offset + 2, end)), end];
+    };
+    if (der[0] !== 0x30 || der[1] !== der.length - 2) {
+        throw new Error("malformed DER signature: expected a SEQUENCE covering the whole signature");
+    }
+    const [r, next] = integer(2);
+    const [s, end] = integer(next);
+    if (end !== der.length) {
+        throw new Error("malformed DER signature: trailing bytes");
+    }
+    return { r: ethers.toBeHex(r, 32), s: ethers.toBeHex(s, 32) };
+}
+
+/**
+ * @notice Relying-party checks a passkey wallet makes before verifying the signature
+ * @return Problems found, empty when the assertion matches the request
+ */
+export function checkAssertion(
+    assertion: WebAuthnAssertion,
+    expected: { rpId: string; origin: string; challenge: ethers.BytesLike }
+): string[] {
+    const problems: string[] = [];
+    const clientData = JSON.parse(assertion.clientDataJSON);
+    if (clientData.type !== "webauthn.get") {
+        problems.push(`clientDataJSON type is "${clientData.type}", expected "webauthn.get"`);
+    }
+    if (clientData.challenge !== base64url(expected.challenge)) {
+        problems.push("clientDataJSON challenge does not match the request");
+    }
+    if (clientData.origin !== expected.origin) {
+        problems.push(`clientDataJSON origin is "${clientData.origin}", expected "${expected.origin}"`);
+    }
+    const authenticatorData = ethers.getBytes(assertion.authenticatorData);
+    if (authenticatorData.length < 37) {
+        problems.push(`authenticatorData is ${authenticatorData.length} bytes, at least 37 expected`);
+        return problems;
+    }
+    if (ethers.hexlify(authenticatorData.subarray(0, 32)) !== sha256(ethers.toUtf8Bytes(expected.rpId))) {
+        problems.push(`rpIdHash does not match sha256("${expected.rpId}")`);
+    }
+    if ((authenticatorData[32] & FLAG_USER_PRESENT) === 0) {
+        problems.push("user presence flag not set");
+    }
+    return problems;
+}
@@ -0,0 +1,388 @@
+/**
+ * @file ws-subscriptions.ts
+ * @notice JSON-RPC subscription client over WebSocket: eth_subscribe / eth_unsubscribe, routing of
+ *         eth_subscription notifications to typed streams, and reconnect with resubscribe
+ * @dev Usage:
+ *        const client = await SubscriptionClient.connect(wsUrl);
+ *        const receipts = await client.subscribe("tez_newPreconfirmedReceipts");
+ *        receipts.on((receipt) => console.log(receipt.transactionHash));
+ *        ...
+ *        await client.close(); // eth_unsubscribe for every subscription, then close
+ *      When the connection drops, the client reconnects with exponential backoff and subscribes
+ *      again. A Subscription keeps its listeners across reconnects; only its server-side ID
+ *      changes. Events the node published while the client was disconnected are lost.
+ */
+
+import WebSocket from "ws";
+import type { RpcReceipt } from "./receipts.js";
+
+/** Transaction announced by tez_newIncludedTransactions, in eth_getTransactionByHash form */
+export interface IncludedTransaction {
+    hash: string;
+    from: string;
+    to: string | null;
+    nonce: string;
+    [field: string]: unknown;
+}
+
+export interface NewHead {
+    number: string;
+    hash: string;
+    parentHash: string;
+    timestamp: string;
+    [field: string]: unknown;
+}
+
+/** Event type of each subscription topic */
+export interface SubscriptionTopics {
+    newHeads: NewHead;
+    tez_newIncludedTransactions: IncludedTransaction;
+    tez_newPreconfirmedReceipts: RpcReceipt;
+}
+
+export type Topic = keyof SubscriptionTopics & string;
+
+export interface SubscriptionClientOptions {
+    /** Reconnect attempts after the connection drops; 0 ends every subscription instead */
+    reconnectAttempts: number;
+    /** Delay before the first reconnect attempt, doubled after each failed one */
+    reconnectDelayMs: number;
+    maxReconnectDelayMs: number;
+    /** How long to wait for the response to eth_subscribe or eth_unsubscribe */
+    requestTimeoutMs: number;
+    handshakeTimeoutMs: number;
+}
+
+export const DEFAULT_CLIENT_OPTIONS: SubscriptionClientOptions = {
+    reconnectAttempts: 5,
+    reconnectDelayMs: 250,
+    maxReconnectDelayMs: 5000,
+    requestTimeoutMs: 10000,
+    handshakeTimeoutMs: 10000,
+};
+
+export interface ClientStats {
+    /** Notifications delivered to a subscription */
+    notifications: number;
+    /** Messages that were not valid JSON */
+    parseErrors: number;
+    /** Notifications for an unknown subscription ID, and messages that are neither responses nor notifications */
+    unrouted: number;
+    reconnects: number;
+}
+
+interface PendingRequest {
+    method: string;
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * @notice Stream of one subscription's events: listeners with on(), or `for await`
+ * @dev Events are buffered for iteration only once an iterator has been requested, so a
+ *      subscription consumed through listeners alone does not grow a queue.
+ */
+export class Subscription<T> implements AsyncIterable<T> {
+    /** Server-side subscription ID; null while disconnected, and new after each resubscribe */
+    id: string | null = null;
+    private readonly listeners = new Set<(event: T) => void>();
+    private readonly queue: T[] = [];
+    private readonly waiters: ((result: IteratorResult<T>) => void)[] = [];
+    private buffering = false;
+    private ended = false;
+
+    constructor(
+        private readonly client: SubscriptionClient,
+        readonly topic: Topic,
+        readonly params: unknown[]
+    ) {}
+
+    /**
+     * @notice Call `listener` with every event from now on
+     * @return Removes the listener
+     */
+    on(listener: (event: T) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** Called by SubscriptionClient for each notification */
+    deliver(event: T): void {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error: any) {
+                console.error(`⚠ ${this.topic} listener threw: ${error.message}`);
+            }
+        }
+        if (this.buffering) {
+            const waiter = this.waiters.shift();
+            if (waiter) {
+                waiter({ value: event, done: false });
+            } else {
+                this.queue.push(event);
+            }
+        }
+    }
+
+    /** Called by SubscriptionClient when the subscription is over; iteration finishes */
+    end(): void {
+        this.ended = true;
+        for (const waiter of this.waiters.splice(0)) {
+            waiter({ value: undefined, done: true });
+        }
+    }
+
+    get active(): boolean {
+        return !this.ended;
+    }
+
+    unsubscribe(): Promise<void> {
+        return this.client.unsubscribe(this);
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+        this.buffering = true;
+        return {
+            next: () => {
+                const value = this.queue.shift();
+                if (value !== undefined) {
+                    return Promise.resolve({ value, done: false });
+                }
+                if (this.ended) {
+                    return Promise.resolve({ value: undefined, done: true });
+                }
+                return new Promise((resolve) => this.waiters.push(resolve));
+            },
+            return: () => {
+                this.buffering = false;
+                this.queue.length = 0;
+                return Promise.resolve({ value: undefined, done: true });
+            },
+        };
+    }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function openSocket(url: string, handshakeTimeoutMs: number): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+        const ws = new WebSocket(url, { handshakeTimeout: handshakeTimeoutMs });
+        const fail = (error: Error) => {
+            ws.removeAllListeners();
+            ws.on("error", () => {});
+            reject(error);
+        };
+        ws.once("open", () => {
+            ws.removeAllListeners();
+            resolve(ws);
+        });
+        ws.once("error", fail);
+        ws.once("close", (code) => fail(new Error(`connection to ${url} closed (code ${code})`)));
+    });
+}
+
+export class SubscriptionClient {
+    readonly stats: ClientStats = { notifications: 0, parseErrors: 0, unrouted: 0, reconnects: 0 };
+    private nextRequestId = 1;
+    private readonly pending = new Map<number, PendingRequest>();
+    private readonly subscriptions = new Set<Subscription<any>>();
+    private readonly byId = new Map<string, Subscription<any>>();
+    private reconnecting: Promise<void> | null = null;
+    private closing = false;
+
+    private constructor(
+        readonly url: string,
+        private readonly options: SubscriptionClientOptions,
+        private ws: WebSocket
+    ) {
+        this.attach(ws);
+    }
+
+    /**
+     * @notice Open a connection to `url`; rejects if the handshake fails
+     */
+    static async connect(url: string, options: Partial<SubscriptionClientOptions> = {}): Promise<SubscriptionClient> {
+        const resolved = { ...DEFAULT_CLIENT_OPTIONS, ...options };
+        return new SubscriptionClient(url, resolved, await openSocket(url, resolved.handshakeTimeoutMs));
+    }
+
+    /**
+     * @notice eth_subscribe to `topic`; resolves once the node has confirmed the subscription
+     * @dev Rejects with the node's error, e.g. for a topic it does not support
+     */
+    async subscribe<K extends Topic>(topic: K, ...params: unknown[]): Promise<Subscription<SubscriptionTopics[K]>> {
+        const subscription = new Subscription<SubscriptionTopics[K]>(this, topic, params);
+        await this.activate(subscription);
+        this.subscriptions.add(subscription);
+        return subscription;
+    }
+
+    /**
+     * @notice eth_unsubscribe and end the stream
+     * @dev Resolves even if the node no longer knows the subscription
+     */
+    async unsubscribe(subscription: Subscription<any>): Promise<void> {
+        this.subscriptions.delete(subscription);
+        const id = subscription.id;
+        subscription.id = null;
+        if (id !== null) {
+            this.byId.delete(id);
+            if (this.ws.readyState === WebSocket.OPEN) {
+                await this.request("eth_unsubscribe", [id]).catch((error) => {
+                    console.warn(`⚠ eth_unsubscribe ${id} failed: ${error.message}`);
+                });
+            }
+        }
+        subscription.end();
+    }
+
+    /**
+     * @notice Unsubscribe everything, then close the connection; no reconnect after this
+     */
+    async close(): Promise<void> {
+        this.closing = true;
+        await this.reconnecting;
+        await Promise.all([...this.subscriptions].map((subscription) => this.unsubscribe(subscription)));
+        if (this.ws.readyState === WebSocket.CLOSED) {
+            return;
+        }
+        const closed = new Promise((resolve) => this.ws.once("close", resolve));
+        this.ws.close();
+        // Do not wait on a peer that never completes the close handshake
+        const timer = setTimeout(() => this.ws.terminate(), 1000);
+        await closed;
+        clearTimeout(timer);
+    }
+
+    private attach(ws: WebSocket): void {
+        ws.on("message", (data: WebSocket.Data) => this.handleMessage(data.toString()));
+        // A 'close' event follows every error, and handles it
+        ws.on("error", (error) => console.warn(`⚠ WebSocket error: ${error.message}`));
+        ws.on("close", () => this.handleClose(ws));
+    }
+
+    private request(method: string, params: unknown[]): Promise<unknown> {
+        if (this.ws.readyState !== WebSocket.OPEN) {
+            return Promise.reject(new Error(`${method}: WebSocket is not open`));
+        }
+        const id = this.nextRequestId++;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                reject(new Error(`${method}: no response within ${this.options.requestTimeoutMs} ms`));
+            }, this.options.requestTimeoutMs);
+            this.pending.set(id, { method, resolve, reject, timer });
+            this.ws.send(JSON.stringify({ jsonrpc: "2.0", id, method, params }));
+        });
+    }
+
+    private async activate(subscription: Subscription<any>): Promise<void> {
+        const id = await this.request("eth_subscribe", [subscription.topic, ...subscription.params]);
+        if (typeof id !== "string") {
+            throw new Error(`eth_subscribe ${subscription.topic} returned ${JSON.stringify(id)} instead of an ID`);
+        }
+        subscription.id = id;
+        this.byId.set(id, subscription);
+    }
+
+    private handleMessage(text: string): void {
+        let message: any;
+        try {
+            message = JSON.parse(text);
+        } catch {
+            this.stats.parseErrors++;
+            console.warn(`⚠ Ignoring a WebSocket message that is not JSON: ${text.slice(0, 80)}`);
+            return;
+        }
+
+        const request = typeof message?.id === "number" ? this.pending.get(message.id) : undefined;
+        if (request) {
+            this.pending.delete(message.id);
+            clearTimeout(request.timer);
+            if (message.error) {
+                const { code, message: reason } = message.error;
+                request.reject(new Error(`${request.method} failed: ${reason} (code ${code})`));
+            } else {
+                request.resolve(message.result);
+            }
+            return;
+        }
+
+        if (message?.method === "eth_subscription") {
+            const subscription = this.byId.get(message.params?.subscription);
+            if (subscription) {
+                this.stats.notifications++;
+                subscription.deliver(message.params.result);
+                return;
+            }
+        }
+        if (this.stats.unrouted++ === 0) {
+            console.warn(`⚠ Unexpected WebSocket message (further ones are only counted): ${text.slice(0, 120)}`);
+        }
+    }
+
+    private handleClose(ws: WebSocket): void {
+        if (ws !== this.ws) {
+            return;
+        }
+        for (const [id, request] of this.pending) {
+            clearTimeout(request.timer);
+            request.reject(new Error(`${request.method}: connection closed`));
+            this.pending.delete(id);
+        }
+        this.byId.clear();
+        for (const subscription of this.subscriptions) {
+            subscription.id = null;
+        }
+        if (this.closing || this.reconnecting) {
+            // A drop during a reconnect attempt fails that attempt; the loop retries
+            return;
+        }
+        if (this.options.reconnectAttempts === 0) {
+            this.endAll();
+            return;
+        }
+        console.warn(`⚠ WebSocket connection to ${this.url} lost; reconnecting`);
+        this.reconnecting = this.reconnect().finally(() => {
+            this.reconnecting = null;
+        });
+    }
+
+    private async reconnect(): Promise<void> {
+        let delay = this.options.reconnectDelayMs;
+        for (let attempt = 1; attempt <= this.options.reconnectAttempts && !this.closing; attempt++) {
+            await sleep(delay);
+            if (this.closing) {
+                return;
+            }
+            try {
+                this.ws = await openSocket(this.url, this.options.handshakeTimeoutMs);
+                this.attach(this.ws);
+                for (const subscription of this.subscriptions) {
+                    await this.activate(subscription);
+                }
+                this.stats.reconnects++;
+                console.log(`✓ Reconnected to ${this.url}; resubscribed ${this.subscriptions.size} subscription(s)`);
+                return;
+            } catch (error: any) {
+                const attempts = `${attempt}/${this.options.reconnectAttempts}`;
+                console.warn(`⚠ Reconnect attempt ${attempts} failed: ${error.message}`);
+                this.ws.terminate();
+                delay = Math.min(delay * 2, this.options.maxReconnectDelayMs);
+            }
+        }
+        if (!this.closing) {
+            console.error(`✗ Could not reconnect to ${this.url}; ending ${this.subscriptions.size} subscription(s)`);
+            this.endAll();
+        }
+    }
+
+    private endAll(): void {
+        for (const subscription of this.subscriptions) {
+            subscription.end();
+        }
+        this.subscriptions.clear();
+    }
+}
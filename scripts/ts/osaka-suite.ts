@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+/**
+ * @file osaka-suite.ts
+ * @notice Runs every registered suite in one process, with test selection and JSON/JUnit reports
+ * @dev Usage:
+ *        osaka-suite [--network <profile>] [--only <selectors>] [--skip <selectors>]
+ *                    [--report-json <path>] [--report-junit <path>] [--list]
+ *      Selectors are EIP numbers ("7939", "eip-7939"), suite ids ("eth-config") or test ids
+ *      ("eth-config/fork-ids"), comma-separated or repeated. Remaining flags (e.g. --mode=pending)
+ *      are passed through to the suites. With --network, a chain ID mismatch fails the run before
+ *      any suite starts.
+ */
+
+import { parseArgs } from "util";
+import { ConfigError } from "./lib/env.js";
+import { exitCodeFor, printSummary, runNetworkCheck, runSuite, type TestResult } from "./lib/harness.js";
+import { networkFromArgv } from "./lib/networks.js";
+import { buildReport, writeJsonReport, writeJUnitReport } from "./lib/reports.js";
+import { parseSelectors, suiteSelected, testSelected, type Selection } from "./lib/selection.js";
+import { SUITES } from "./suites.js";
+
+function listSuites() {
+    for (const suite of SUITES) {
+        const eips = suite.eips.length > 0 ? ` [EIP-${suite.eips.join(", EIP-")}]` : "";
+        console.log(`${suite.id}${eips} - ${suite.title}`);
+    }
+}
+
+async function runOsakaSuite() {
+    const argv = process.argv.slice(2);
+    const args = parseArgs({
+        args: argv,
+        options: {
+            only: { type: "string", multiple: true },
+            skip: { type: "string", multiple: true },
+            "report-json": { type: "string" },
+            "report-junit": { type: "string" },
+            list: { type: "boolean", default: false },
+        },
+        strict: false,
+    });
+
+    if (args.values.list === true) {
+        listSuites();
+        return;
+    }
+
+    const selection: Selection = {
+        only: parseSelectors(args.values.only as (string | boolean)[] | undefined),
+        skip: parseSelectors(args.values.skip as (string | boolean)[] | undefined),
+    };
+
+    const network = networkFromArgv(argv);
+    if (network) {
+        console.log(`Network profile: ${network.name}${network.description ? ` (${network.description})` : ""}`);
+    }
+
+    const startedAt = new Date();
+    const checks = network ? await runNetworkCheck(network, { argv }) : [];
+    const networkOk = exitCodeFor(checks) === 0;
+    if (!networkOk) {
+        console.error("\nERROR: network profile check failed, no suite was run");
+    }
+    const results: TestResult[] = [];
+    for (const suite of networkOk ? SUITES : []) {
+        if (!suiteSelected(selection, suite)) {
+            continue;
+        }
+        console.log(`\n${"#".repeat(50)}\n# ${suite.title} (${suite.id})\n${"#".repeat(50)}`);
+        const suiteResults = await runSuite(suite, {
+            argv,
+            network,
+            filter: (s, spec) => testSelected(selection, s, spec),
+        });
+        results.push(...suiteResults);
+    }
+
+    if (results.length === 0 && networkOk) {
+        console.error("ERROR: no tests matched the --only/--skip selection");
+        process.exit(1);
+    }
+    results.unshift(...checks);
+
+    printSummary("osaka-suite", results);
+
+    const report = buildReport(results, startedAt, network?.rpcUrl ?? process.env.ETH_RPC_URL ?? null, network?.name ?? null);
+    const jsonPath = args.values["report-json"];
+    if (typeof jsonPath === "string") {
+        writeJsonReport(jsonPath, report);
+        console.log(`\nJSON report written to ${jsonPath}`);
+    }
+    const junitPath = args.values["report-junit"];
+    if (typeof junitPath === "string") {
+        writeJUnitReport(junitPath, report);
+        console.log(`JUnit report written to ${junitPath}`);
+    }
+
+    process.exit(exitCodeFor(results));
+}
+
+runOsakaSuite().catch((error) => {
+    if (error instanceof ConfigError) {
+        console.error(`ERROR: ${error.message}`);
+        process.exit(1);
+    }
+    console.error("Fatal error:", error);
+    process.exit(1);
+});
@@ -0,0 +1,421 @@
+#!/usr/bin/env node
+/**
+ * @file prague-regression.ts
+ * @notice Checks that Prague/Pectra features still work on the live node after Osaka
+ * @dev The TypeScript counterpart of Regression_Pectra_Prague.t.sol, run against a node instead
+ *      of Foundry's EVM. Everything except EIP-7702 runs as raw bytecode or precompile calls
+ *      through eth_call; the EIP-7702 test deploys a delegate and sends a type-4 transaction,
+ *      so it needs a funded key.
+ */
+
+import { ethers } from "ethers";
+import {
+    BLS_GAS,
+    BLS_P,
+    BLS_PRECOMPILES,
+    blsPairingGas,
+    decodeG1,
+    decodeG2,
+    encodeFp,
+    encodeFp2,
+    encodeG1,
+    encodeG2,
+    encodeScalar,
+    G1,
+    G1_GENERATOR,
+    G2,
+    G2_GENERATOR,
+} from "./lib/bls12381.js";
+import { assemble, callInitcode, creationCode, label, push, ref, RETURN_TOP, type AsmItem } from "./lib/evm-asm.js";
+import { defineSuite, isEntryPoint, runMain } from "./lib/harness.js";
+import { staticcallWithGas } from "./lib/precompile-call.js";
+import { rpcErrorOf } from "./lib/rpc.js";
+
+/** EIP-2935 history contract */
+const HISTORY_STORAGE_ADDRESS = "0x0000F90827F1C53a10cb7A02335B175320002935";
+
+/** EIP-2935 ring buffer size, in blocks */
+const HISTORY_SERVE_WINDOW = 8191;
+
+/** Blocks reachable through the BLOCKHASH opcode */
+const BLOCKHASH_WINDOW = 256;
+
+/** 7702 delegation designator prefix */
+const DELEGATION_PREFIX = "0xef0100";
+
+/** Scalar used for the MSM cases */
+const MSM_SCALAR = 0x1234567890abcdef1234567890abcdef1234567890abcdefn;
+
+interface BlsCase {
+    name: string;
+    address: string;
+    input: string;
+    gas: bigint;
+    /** Checks the output; omitted when the call must fail */
+    expect?: (output: string) => boolean;
+}
+
+const returns = (expected: string) => (output: string) => output === expected;
+const TRUE_WORD = ethers.toBeHex(1, 32);
+const FALSE_WORD = ethers.toBeHex(0, 32);
+
+function blsCases(): BlsCase[] {
+    const g1 = G1_GENERATOR;
+    const g2 = G2_GENERATOR;
+    const g1Double = G1.add(g1, g1);
+    const g2Double = G2.add(g2, g2);
+    const offCurve = { x: g1!.x, y: g1!.y + 1n };
+    // On the curve, but outside the prime-order subgroup; MSM and pairing must reject it
+    const outsideSubgroup = { x: 0n, y: 2n };
+    const { G1ADD, G1MSM, G2ADD, G2MSM, PAIRING, MAP_FP_TO_G1, MAP_FP2_TO_G2 } = BLS_PRECOMPILES;
+    return [
+        {
+            name: "G1ADD G + 2G = 3G",
+            address: G1ADD,
+            input: ethers.concat([encodeG1(g1), encodeG1(g1Double)]),
+            gas: BLS_GAS.G1ADD,
+            expect: returns(encodeG1(G1.mul(g1, 3n))),
+        },
+        {
+            name: "G1ADD G + (-G) = infinity",
+            address: G1ADD,
+            input: ethers.concat([encodeG1(g1), encodeG1(G1.neg(g1))]),
+            gas: BLS_GAS.G1ADD,
+            expect: returns(encodeG1(null)),
+        },
+        {
+            name: "G1ADD rejects a point off the curve",
+            address: G1ADD,
+            input: ethers.concat([encodeG1(offCurve), encodeG1(g1)]),
+            gas: BLS_GAS.G1ADD,
+        },
+        {
+            name: "G1MSM k * G",
+            address: G1MSM,
+            input: ethers.concat([encodeG1(g1), encodeScalar(MSM_SCALAR)]),
+            gas: BLS_GAS.G1MSM,
+            expect: returns(encodeG1(G1.mul(g1, MSM_SCALAR))),
+        },
+        {
+            name: "G1MSM rejects a point outside the subgroup",
+            address: G1MSM,
+            input: ethers.concat([encodeG1(outsideSubgroup), encodeScalar(1n)]),
+            gas: BLS_GAS.G1MSM,
+        },
+        {
+            name: "G2ADD G + 2G = 3G",
+            address: G2ADD,
+            input: ethers.concat([encodeG2(g2), encodeG2(g2Double)]),
+            gas: BLS_GAS.G2ADD,
+            expect: returns(encodeG2(G2.mul(g2, 3n))),
+        },
+        {
+            name: "G2MSM k * G",
+            address: G2MSM,
+            input: ethers.concat([encodeG2(g2), encodeScalar(MSM_SCALAR)]),
+            gas: BLS_GAS.G2MSM,
+            expect: returns(encodeG2(G2.mul(g2, MSM_SCALAR))),
+        },
+        {
+            name: "PAIRING e(G1, G2) * e(-G1, G2) = 1",
+            address: PAIRING,
+            input: ethers.concat([encodeG1(g1), encodeG2(g2), encodeG1(G1.neg(g1)), encodeG2(g2)]),
+            gas: blsPairingGas(2),
+            expect: returns(TRUE_WORD),
+        },
+        {
+            name: "PAIRING e(2 G1, G2) * e(-G1, 2 G2) = 1",
+            address: PAIRING,
+            input: ethers.concat([encodeG1(g1Double), encodeG2(g2), encodeG1(G1.neg(g1)), encodeG2(g2Double)]),
+            gas: blsPairingGas(2),
+            expect: returns(TRUE_WORD),
+        },
+        {
+            name: "PAIRING e(G1, G2) != 1",
+            address: PAIRING,
+            input: ethers.concat([encodeG1(g1), encodeG2(g2)]),
+            gas: blsPairingGas(1),
+            expect: returns(FALSE_WORD),
+        },
+        {
+            name: "MAP_FP_TO_G1 lands in G1",
+            address: MAP_FP_TO_G1,
+            input: encodeFp(1n),
+            gas: BLS_GAS.MAP_FP_TO_G1,
+            expect: (output) => ethers.dataLength(output) === 128 && G1.isInSubgroup(decodeG1(output)),
+        },
+        {
+            name: "MAP_FP_TO_G1 rejects a non-canonical field element",
+            address: MAP_FP_TO_G1,
+            input: encodeFp(BLS_P),
+            gas: BLS_GAS.MAP_FP_TO_G1,
+        },
+        {
+            name: "MAP_FP2_TO_G2 lands in G2",
+            address: MAP_FP2_TO_G2,
+            input: encodeFp2([1n, 2n]),
+            gas: BLS_GAS.MAP_FP2_TO_G2,
+            expect: (output) => ethers.dataLength(output) === 256 && G2.isInSubgroup(decodeG2(output)),
+        },
+    ];
+}
+
+/**
+ * <setup>; GAS; <measured>; GAS; return the difference. The difference covers `measured` plus
+ * the second GAS (2).
+ */
+const gasProgram = (measured: AsmItem[], setup: AsmItem[] = []) =>
+    assemble([...setup, "GAS", ...measured, "GAS", "SWAP1", "SUB", ...RETURN_TOP]);
+
+/** Gas cost of the one opcode in `measured` that is not a plain push or POP */
+async function measureGas(
+    provider: ethers.JsonRpcProvider,
+    measured: AsmItem[],
+    overhead: bigint,
+    setup: AsmItem[] = []
+): Promise<bigint> {
+    return BigInt(await callInitcode(provider, gasProgram(measured, setup))) - overhead;
+}
+
+/**
+ * Child contract for the transient storage test: with calldata it TSTOREs the first word at
+ * slot 1, without it returns the word at slot 1
+ */
+const TRANSIENT_CHILD = assemble([
+    "CALLDATASIZE", ref("store"), "JUMPI",
+    push(1), "TLOAD", ...RETURN_TOP,
+    label("store"),
+    "PUSH0", "CALLDATALOAD", push(1), "TSTORE", "STOP",
+]);
+
+/**
+ * Initcode that CREATEs TRANSIENT_CHILD, CALLs it to store 0x2a, STATICCALLs it to store again
+ * (which must fail), then STATICCALLs it to read the slot back.
+ * Returns `static store success (32 bytes) || value read (32 bytes)`.
+ */
+function transientFramesProgram(): string {
+    const child = creationCode(TRANSIENT_CHILD);
+    const size = ethers.dataLength(child);
+    const code = (dataOffset: number) =>
+        assemble([
+            ["PUSH2", size], ["PUSH2", dataOffset], "PUSH0", "CODECOPY",
+            ["PUSH2", size], "PUSH0", "PUSH0", "CREATE", // [child]
+            push(0x2a), "PUSH0", "MSTORE",
+            "PUSH0", "PUSH0", push(32), "PUSH0", "PUSH0", "DUP6", "GAS", "CALL", "POP", // store 0x2a
+            "PUSH0", "PUSH0", push(32), "PUSH0", "DUP5", "GAS", "STATICCALL", // [child, static store success]
+            push(32), push(32), "PUSH0", "PUSH0", "DUP6", "GAS", "STATICCALL", "POP", // mem[0x20] = slot 1
+            "PUSH0", "MSTORE",
+            push(64), "PUSH0", "RETURN",
+        ]);
+    return ethers.concat([code(ethers.dataLength(code(0))), child]);
+}
+
+/** Run every case in `cases` with exactly its modelled gas; returns the number of failures */
+async function runBlsCases(provider: ethers.JsonRpcProvider, cases: BlsCase[]): Promise<number> {
+    let failures = 0;
+    for (const { name, address, input, gas, expect } of cases) {
+        const outcome = await staticcallWithGas(provider, address, input, gas);
+        let problem: string | null = null;
+        if (!expect) {
+            if (outcome.success) {
+                problem = `succeeded with output "${outcome.returnData}", expected a failure`;
+            }
+        } else if (!outcome.success) {
+            problem = `failed with ${gas} gas`;
+        } else if (outcome.gasUsed !== gas) {
+            problem = `cost ${outcome.gasUsed} gas, expected ${gas}`;
+        } else if (!expect(outcome.returnData)) {
+            problem = `unexpected output "${outcome.returnData}"`;
+        }
+        if (problem) {
+            console.error(`✗ ${name}: ${problem}`);
+            failures++;
+        } else {
+            console.log(`✓ ${name}`);
+        }
+    }
+    return failures;
+}
+
+export const pragueRegressionSuite = defineSuite({
+    id: "prague-regression",
+    title: "Prague/Pectra regression",
+    eips: [3855, 5656, 1153, 2935, 2537, 7702],
+    async run(h) {
+        await h.test({ id: "push0", title: "PUSH0", eips: [3855] }, async () => {
+            const result = BigInt(await callInitcode(h.provider, assemble(["PUSH0", "ISZERO", ...RETURN_TOP])));
+            if (result !== 1n) {
+                throw new Error(`PUSH0; ISZERO returned ${result}, expected 1`);
+            }
+            // POP (2) and the second GAS (2)
+            const gas = await measureGas(h.provider, ["PUSH0", "POP"], 4n);
+            if (gas !== 2n) {
+                throw new Error(`PUSH0 cost ${gas} gas, expected 2`);
+            }
+            console.log("✓ PUSH0 pushes zero for 2 gas");
+        });
+
+        await h.test({ id: "mcopy", title: "MCOPY", eips: [5656] }, async () => {
+            const word = ethers.hexlify(ethers.randomBytes(32));
+            // MCOPY pops dest, src, length
+            const copy = await callInitcode(
+                h.provider,
+                assemble([
+                    ["PUSH32", word], push(0x20), "MSTORE",
+                    push(32), push(0x20), "PUSH0", "MCOPY",
+                    "PUSH0", "MLOAD", ...RETURN_TOP,
+                ])
+            );
+            if (copy !== word) {
+                throw new Error(`MCOPY of one word returned ${copy}, expected ${word}`);
+            }
+            // Overlapping regions behave like memmove: copying [0, 32) to [1, 33) shifts the word right
+            const overlap = await callInitcode(
+                h.provider,
+                assemble([
+                    ["PUSH32", word], "PUSH0", "MSTORE",
+                    push(32), "PUSH0", push(1), "MCOPY",
+                    "PUSH0", "MLOAD", ...RETURN_TOP,
+                ])
+            );
+            const shifted = ethers.concat([ethers.dataSlice(word, 0, 1), ethers.dataSlice(word, 0, 31)]);
+            if (overlap !== shifted) {
+                throw new Error(`overlapping MCOPY returned ${overlap}, expected ${shifted}`);
+            }
+            // Memory is expanded to 64 bytes first, so the copy costs 3 + 3 per word; the three
+            // pushes and the second GAS add 10
+            const gas = await measureGas(h.provider, [push(32), push(0x20), "PUSH0", "MCOPY"], 10n, [
+                push(1), push(0x20), "MSTORE",
+            ]);
+            if (gas !== 6n) {
+                throw new Error(`MCOPY of one word cost ${gas} gas, expected 6`);
+            }
+            console.log("✓ MCOPY copies disjoint and overlapping regions, 6 gas per word");
+        });
+
+        await h.test({ id: "transient-storage", title: "TSTORE / TLOAD", eips: [1153] }, async () => {
+            const program = assemble([push(0x2a), push(1), "TSTORE", push(1), "TLOAD", ...RETURN_TOP]);
+            const roundTrip = BigInt(await callInitcode(h.provider, program));
+            if (roundTrip !== 0x2an) {
+                throw new Error(`TLOAD after TSTORE returned ${roundTrip}, expected 42`);
+            }
+            console.log("✓ TLOAD reads what TSTORE wrote");
+
+            const frames = await callInitcode(h.provider, transientFramesProgram());
+            const staticStore = BigInt(ethers.dataSlice(frames, 0, 32));
+            const readBack = BigInt(ethers.dataSlice(frames, 32, 64));
+            if (staticStore !== 0n) {
+                throw new Error("TSTORE succeeded inside a STATICCALL");
+            }
+            if (readBack !== 0x2an) {
+                throw new Error(`a later call in the same transaction read ${readBack}, expected 42`);
+            }
+            console.log("✓ Transient storage persists across calls in a transaction and is read-only in STATICCALL");
+
+            // Pushes (6) and the second GAS (2); pushes, POP and the second GAS (7)
+            const tstore = await measureGas(h.provider, [push(0x2a), push(1), "TSTORE"], 8n);
+            const tload = await measureGas(h.provider, [push(1), "TLOAD", "POP"], 7n);
+            if (tstore !== 100n || tload !== 100n) {
+                throw new Error(`TSTORE cost ${tstore} gas and TLOAD ${tload}, expected 100 each`);
+            }
+            console.log("✓ TSTORE and TLOAD cost 100 gas each");
+        });
+
+        await h.test({ id: "eip-2935", title: "Historical block hashes (EIP-2935)", eips: [2935] }, async () => {
+            const code = await h.provider.getCode(HISTORY_STORAGE_ADDRESS);
+            if (code === "0x") {
+                throw new Error(`no history contract at ${HISTORY_STORAGE_ADDRESS}`);
+            }
+            // Pin one block so the expected hashes do not move between calls
+            const head = await h.provider.getBlockNumber();
+            const tag = ethers.toQuantity(head);
+            const query = (number: number) =>
+                h.provider.send("eth_call", [{ to: HISTORY_STORAGE_ADDRESS, data: ethers.toBeHex(number, 32) }, tag]);
+
+            const offsets = [1, 2, BLOCKHASH_WINDOW, BLOCKHASH_WINDOW + 1, HISTORY_SERVE_WINDOW].filter(
+                (offset) => offset <= head
+            );
+            let failures = 0;
+            for (const offset of offsets) {
+                const number = head - offset;
+                const [stored, block] = await Promise.all([query(number), h.provider.getBlock(number)]);
+                if (stored === block!.hash) {
+                    console.log(`✓ Block ${number} (head - ${offset}): ${stored}`);
+                } else if (offset > BLOCKHASH_WINDOW && BigInt(stored) === 0n) {
+                    console.warn(`⚠ Block ${number} (head - ${offset}) not stored; it may predate EIP-2935`);
+                } else {
+                    console.error(`✗ Block ${number} (head - ${offset}): stored ${stored}, actual ${block!.hash}`);
+                    failures++;
+                }
+            }
+            if (failures > 0) {
+                throw new Error(`${failures} historical block hash(es) wrong`);
+            }
+
+            let future: string | null = null;
+            try {
+                future = await query(head + 1);
+            } catch (error: any) {
+                if (!/revert/i.test(rpcErrorOf(error).message)) {
+                    throw error;
+                }
+            }
+            if (future !== null) {
+                throw new Error(`querying block ${head + 1} returned ${future}, expected a revert`);
+            }
+            console.log(`✓ Querying block ${head + 1} reverts`);
+        });
+
+        await h.test({ id: "bls12-381", title: "BLS12-381 precompiles (0x0b-0x11)", eips: [2537] }, async () => {
+            const failures = await runBlsCases(h.provider, blsCases());
+            if (failures > 0) {
+                throw new Error(`${failures} BLS12-381 case(s) failed`);
+            }
+        });
+
+        await h.test({ id: "eip-7702", title: "Set-code transaction (EIP-7702)", eips: [7702] }, async () => {
+            const wallet = await h.fundedWallet();
+            // The delegate returns ADDRESS, which is the authority's when it runs as delegated code
+            const deploy = await wallet.sendTransaction({ data: creationCode(assemble(["ADDRESS", ...RETURN_TOP])) });
+            const target = (await deploy.wait())!.contractAddress!;
+            console.log(`✓ Delegate deployed at ${target}`);
+
+            // A fresh authority needs no funds: the test account sponsors the transaction
+            const authority = ethers.Wallet.createRandom();
+            const { chainId } = await h.provider.getNetwork();
+            const authorization = authority.authorizeSync({ address: target, nonce: 0, chainId });
+            const tx = await wallet.sendTransaction({
+                type: 4,
+                to: authority.address,
+                authorizationList: [authorization],
+            });
+            const receipt = (await tx.wait())!;
+            h.detail("txHash", tx.hash);
+            if (receipt.type !== 4) {
+                throw new Error(`receipt reports transaction type ${receipt.type}, expected 4`);
+            }
+            console.log(`✓ Type-4 transaction included in block ${receipt.blockNumber}`);
+
+            const code = await h.provider.getCode(authority.address);
+            const designator = ethers.concat([DELEGATION_PREFIX, target]).toLowerCase();
+            if (code.toLowerCase() !== designator) {
+                throw new Error(`authority code is ${code}, expected delegation designator ${designator}`);
+            }
+            console.log(`✓ Authority code is the delegation designator ${designator}`);
+
+            const nonce = await h.provider.getTransactionCount(authority.address);
+            if (nonce !== 1) {
+                throw new Error(`authority nonce is ${nonce} after the authorization, expected 1`);
+            }
+            const self = await h.provider.call({ to: authority.address });
+            if (self !== ethers.zeroPadValue(authority.address, 32).toLowerCase()) {
+                throw new Error(`call to the authority returned ${self}, expected its own address`);
+            }
+            console.log("✓ Calls to the authority run the delegate's code in the authority's context");
+        });
+    },
+});
+
+if (isEntryPoint(import.meta.url)) {
+    runMain(pragueRegressionSuite);
+}
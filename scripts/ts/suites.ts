@@ -0,0 +1,31 @@
+/**
+ * @file suites.ts
+ * @notice Registry of every suite run by osaka-suite, in execution order
+ */
+
+import { bytecodeProbesSuite } from "./bytecode-probes.js";
+import { ethConfigSuite } from "./check-eth-config.js";
+import { forkDifferentialSuite } from "./fork-differential.js";
+import { forkIdVectorsSuite } from "./forkid-vectors.js";
+import type { Suite } from "./lib/harness.js";
+import { instantConfirmationsSuite } from "./instant-confirmations.js";
+import { pragueRegressionSuite } from "./prague-regression.js";
+import { rlpBlockSizeSuite } from "./rlp-blocksize-probe.js";
+import { syncScenariosSuite } from "./sync-scenarios.js";
+import { osakaOnchainSuite } from "./test-osaka-onchain.js";
+import { txGasCapSuite } from "./tx-gas-cap.js";
+import { wsClientSuite } from "./ws-client-check.js";
+
+export const SUITES: readonly Suite[] = [
+    forkIdVectorsSuite,
+    wsClientSuite,
+    ethConfigSuite,
+    txGasCapSuite,
+    rlpBlockSizeSuite,
+    bytecodeProbesSuite,
+    forkDifferentialSuite,
+    pragueRegressionSuite,
+    instantConfirmationsSuite,
+    syncScenariosSuite,
+    osakaOnchainSuite,
+];
@@ -0,0 +1,469 @@
+#!/usr/bin/env node
+/**
+ * @file sync-scenarios.ts
+ * @notice Burst, nonce-chain, nonce-gap and replacement scenarios for eth_sendRawTransactionSync
+ *         in "pending" mode
+ * @dev Every preconfirmed transaction is followed to its final receipt, compared field by field
+ *      and checked against the final inclusion order (see lib/receipts.ts). For gapped and
+ *      replaced transactions the node's error must say what went wrong: a rejection whose text
+ *      categorizeRejection cannot place fails the test.
+ *      The parallel-senders scenario derives extra accounts from PRIVATE_KEY and tops them up
+ *      from the test account; the same accounts are reused on every run.
+ */
+
+import { ethers } from "ethers";
+import { parseArgs } from "util";
+import { defineSuite, isEntryPoint, runMain, skip } from "./lib/harness.js";
+import {
+    inclusionOrderIssues,
+    reportConsistency,
+    waitForFinalReceipt,
+    type PreconfirmedTransaction,
+    type RpcReceipt,
+} from "./lib/receipts.js";
+import { categorizeRejection, isMethodNotFound, rpcErrorOf, type RejectionCategory } from "./lib/rpc.js";
+
+const BURN_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+
+const TRANSFER_GAS = 21000n;
+
+/** Transactions each derived account sends, one after the other, in the parallel-senders scenario */
+const CHAIN_LENGTH = 3;
+
+/** Rejections that name the problem with a gapped nonce */
+const GAP_CATEGORIES: RejectionCategory[] = ["nonce-gap"];
+
+/** Rejections that name the problem with replacing a preconfirmed transaction */
+const REPLACEMENT_CATEGORIES: RejectionCategory[] = ["nonce-too-low", "already-known", "replacement-underpriced"];
+
+const deadline = (seconds: number) => Date.now() + seconds * 1000;
+
+interface ScenarioOptions {
+    burstSize: number;
+    accounts: number;
+    /** How long a gapped transaction's eth_sendRawTransactionSync may stay unanswered, in seconds */
+    gapTimeout: number;
+    /** How long to wait for each final receipt, in seconds */
+    finalTimeout: number;
+}
+
+function parseScenarioOptions(argv: string[]): ScenarioOptions {
+    const args = parseArgs({
+        args: argv,
+        options: {
+            "burst-size": { type: "string" },
+            accounts: { type: "string" },
+            "gap-timeout": { type: "string" },
+            "final-timeout": { type: "string" },
+        },
+        strict: false,
+    });
+    const positive = (name: string, fallback: number): number => {
+        const value = args.values[name];
+        if (typeof value !== "string") {
+            return fallback;
+        }
+        const parsed = Number(value);
+        if (!Number.isSafeInteger(parsed) || parsed <= 0) {
+            throw new Error(`--${name} must be a positive integer`);
+        }
+        return parsed;
+    };
+    return {
+        burstSize: positive("burst-size", 10),
+        accounts: positive("accounts", 3),
+        gapTimeout: positive("gap-timeout", 10),
+        finalTimeout: positive("final-timeout", 60),
+    };
+}
+
+/** Outcome of one eth_sendRawTransactionSync call; sendSync never rejects */
+interface SyncResult {
+    hash: string;
+    from: string;
+    nonce: number;
+    receipt: RpcReceipt | null;
+    error: unknown;
+    ms: number;
+}
+
+function sendSync(provider: ethers.JsonRpcProvider, raw: string): Promise<SyncResult> {
+    const tx = ethers.Transaction.from(raw);
+    const sent = { hash: tx.hash!, from: tx.from!, nonce: tx.nonce };
+    const start = Date.now();
+    return provider.send("eth_sendRawTransactionSync", [raw, "pending"]).then(
+        (receipt: RpcReceipt) => ({ ...sent, receipt, error: null, ms: Date.now() - start }),
+        (error: unknown) => ({ ...sent, receipt: null, error, ms: Date.now() - start })
+    );
+}
+
+/** `promise`'s value, or null if it has not settled within `ms`; the promise itself keeps running */
+async function settleWithin<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), ms);
+    });
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/** Raw call: ethers would serve a repeated getTransactionCount within 250 ms from its cache */
+async function pendingNonce(provider: ethers.JsonRpcProvider, address: string): Promise<number> {
+    return Number(await provider.send("eth_getTransactionCount", [address, "pending"]));
+}
+
+/** Signs transfers to the burn address at a fixed fee, so that burst transactions can be pre-signed */
+class TransferSigner {
+    private constructor(
+        private readonly chainId: bigint,
+        private readonly maxFeePerGas: bigint,
+        private readonly maxPriorityFeePerGas: bigint
+    ) {}
+
+    static async create(provider: ethers.JsonRpcProvider): Promise<TransferSigner> {
+        const { chainId } = await provider.getNetwork();
+        const feeData = await provider.getFeeData();
+        const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 1n;
+        return new TransferSigner(chainId, maxFeePerGas, feeData.maxPriorityFeePerGas ?? 0n);
+    }
+
+    /** Upper bound on what one transfer of `value` costs */
+    cost(value: bigint = 1n): bigint {
+        return TRANSFER_GAS * this.maxFeePerGas + value;
+    }
+
+    /**
+     * @param transfer.bump Fee multiplier, for a replacement that outbids the original
+     */
+    sign(
+        wallet: ethers.Wallet,
+        nonce: number,
+        { to = BURN_ADDRESS, value = 1n, bump = 1n }: { to?: string; value?: bigint; bump?: bigint } = {}
+    ): Promise<string> {
+        return wallet.signTransaction({
+            type: 2,
+            chainId: this.chainId,
+            nonce,
+            to,
+            value,
+            gasLimit: TRANSFER_GAS,
+            maxFeePerGas: this.maxFeePerGas * bump,
+            maxPriorityFeePerGas: (this.maxPriorityFeePerGas || 1n) * bump,
+        });
+    }
+}
+
+async function requireBalance(provider: ethers.JsonRpcProvider, address: string, needed: bigint, what: string) {
+    const balance = await provider.getBalance(address);
+    if (balance < needed) {
+        throw new Error(
+            `${what} needs up to ${ethers.formatEther(needed)} ETH, ${address} has ${ethers.formatEther(balance)} ETH`
+        );
+    }
+}
+
+/** Print a rejected send: nonce, category, code and the node's message */
+function describeRejection(result: SyncResult): RejectionCategory {
+    const category = categorizeRejection(result.error);
+    const { code, message } = rpcErrorOf(result.error);
+    console.log(
+        `  nonce ${result.nonce} rejected after ${result.ms} ms (${category}): code ${code ?? "none"}, ${message}`
+    );
+    return category;
+}
+
+/**
+ * @notice Wait for the final receipt of every preconfirmed send
+ * @return The transactions with both receipts, and how many got no final receipt in time
+ */
+async function finalizeAll(
+    provider: ethers.JsonRpcProvider,
+    results: SyncResult[],
+    timeoutSeconds: number
+): Promise<{ transactions: PreconfirmedTransaction[]; missing: number }> {
+    const until = deadline(timeoutSeconds);
+    const preconfirmed = results.filter((result) => result.receipt !== null);
+    const finals = await Promise.all(preconfirmed.map((result) => waitForFinalReceipt(provider, result.hash, until)));
+    const transactions: PreconfirmedTransaction[] = [];
+    let missing = 0;
+    preconfirmed.forEach((result, i) => {
+        const final = finals[i];
+        if (!final) {
+            console.error(`  ✗ nonce ${result.nonce} (${result.hash}): no final receipt after ${timeoutSeconds}s`);
+            missing++;
+            return;
+        }
+        transactions.push({ from: result.from, nonce: result.nonce, preconfirmed: result.receipt!, final });
+    });
+    return { transactions, missing };
+}
+
+/**
+ * @notice Compare each transaction's receipts and check the inclusion order
+ * @return Number of problems found
+ */
+function reportTransactions(transactions: PreconfirmedTransaction[]): number {
+    let failures = 0;
+    for (const transaction of transactions) {
+        console.log(`  ${transaction.from} nonce ${transaction.nonce}:`);
+        failures += reportConsistency(transaction.preconfirmed, transaction.final);
+    }
+    const issues = inclusionOrderIssues(transactions);
+    if (issues.length === 0 && transactions.length > 0) {
+        const blocks = new Set(transactions.map((transaction) => Number(transaction.final.blockNumber)));
+        console.log(`✓ ${transactions.length} transaction(s) in ${blocks.size} block(s), in preconfirmed order`);
+    }
+    for (const issue of issues) {
+        console.error(`  ✗ ${issue}`);
+    }
+    return failures + issues.length;
+}
+
+/** Derived account `index` of `wallet`: a deterministic key, so leftover funds are reused */
+function derivedAccount(wallet: ethers.Wallet, index: number, provider: ethers.JsonRpcProvider): ethers.Wallet {
+    return new ethers.Wallet(ethers.id(`${wallet.privateKey}:sync-scenarios:${index}`), provider);
+}
+
+export const syncScenariosSuite = defineSuite({
+    id: "sync-scenarios",
+    title: "eth_sendRawTransactionSync scenarios",
+    eips: [],
+    async run(h) {
+        const options = parseScenarioOptions(h.argv);
+        const provider = h.provider;
+        const wallet = await h.fundedWallet();
+        const address = await wallet.getAddress();
+        const signer = await TransferSigner.create(provider);
+        const skipIfUnsupported = (results: SyncResult[]) => {
+            if (results.length > 0 && results.every((result) => isMethodNotFound(result.error))) {
+                skip("eth_sendRawTransactionSync method not available");
+            }
+        };
+
+        await h.test({ id: "burst", title: "Burst of consecutive nonces from one account" }, async () => {
+            const count = options.burstSize;
+            await requireBalance(provider, address, signer.cost() * BigInt(count), "burst");
+            const first = await pendingNonce(provider, address);
+            const signed: string[] = [];
+            for (let i = 0; i < count; i++) {
+                signed.push(await signer.sign(wallet, first + i));
+            }
+
+            // Sent as one JSON-RPC batch, in nonce order. The shared provider would split a burst of more
+            // than 100 requests into batches posted in no fixed order; this one keeps the whole burst in
+            // a single request. Batch entries are answered together, so there is one latency.
+            const network = await provider.getNetwork();
+            const batcher = new ethers.JsonRpcProvider(h.env.rpcUrl, network, {
+                staticNetwork: network,
+                batchMaxCount: count,
+            });
+            console.log(`Sending nonces ${first}..${first + count - 1} in one batch...`);
+            let results: SyncResult[];
+            try {
+                results = await Promise.all(signed.map((raw) => sendSync(batcher, raw)));
+            } finally {
+                batcher.destroy();
+            }
+            skipIfUnsupported(results);
+            const rejected = results.filter((result) => result.receipt === null);
+            rejected.forEach(describeRejection);
+            const batchMs = Math.max(...results.map((result) => result.ms));
+            console.log(`${count - rejected.length}/${count} preconfirmed, batch answered in ${batchMs} ms`);
+
+            const { transactions, missing } = await finalizeAll(provider, results, options.finalTimeout);
+            const failures = rejected.length + missing + reportTransactions(transactions);
+            h.detail("preconfirmed", count - rejected.length);
+            h.detail("batchMs", batchMs);
+            h.detail("failures", failures);
+            if (failures > 0) {
+                throw new Error(`${failures} problem(s) in a burst of ${count}`);
+            }
+        });
+
+        await h.test({ id: "parallel-senders", title: "Nonce chains from several accounts in parallel" }, async () => {
+            const accounts = Array.from({ length: options.accounts }, (_, i) => derivedAccount(wallet, i, provider));
+            const needed = signer.cost() * BigInt(CHAIN_LENGTH);
+
+            // Top up to twice the need, so that the next runs can skip funding
+            const balances = await Promise.all(accounts.map((account) => provider.getBalance(account.address)));
+            const topUps = accounts.filter((_, i) => balances[i] < needed);
+            if (topUps.length > 0) {
+                const funding = (2n * needed + signer.cost()) * BigInt(topUps.length);
+                await requireBalance(provider, address, funding, "funding");
+                console.log(`Funding ${topUps.length} account(s) with ${ethers.formatEther(2n * needed)} ETH each...`);
+                const first = await pendingNonce(provider, address);
+                const sent: SyncResult[] = [];
+                for (const [i, account] of topUps.entries()) {
+                    const raw = await signer.sign(wallet, first + i, { to: account.address, value: 2n * needed });
+                    sent.push(await sendSync(provider, raw));
+                }
+                skipIfUnsupported(sent);
+                const failed = sent.filter((result) => result.receipt === null);
+                failed.forEach(describeRejection);
+                const { missing } = await finalizeAll(provider, sent, options.finalTimeout);
+                if (failed.length + missing > 0) {
+                    throw new Error(`funding failed for ${failed.length + missing} account(s)`);
+                }
+            }
+
+            // Each account sends its chain one transaction at a time; the accounts run side by side
+            const chains = await Promise.all(
+                accounts.map(async (account) => {
+                    const first = await pendingNonce(provider, account.address);
+                    const results: SyncResult[] = [];
+                    for (let i = 0; i < CHAIN_LENGTH; i++) {
+                        const result = await sendSync(provider, await signer.sign(account, first + i));
+                        results.push(result);
+                        if (!result.receipt) {
+                            break;
+                        }
+                    }
+                    return results;
+                })
+            );
+            const results = chains.flat();
+            skipIfUnsupported(results);
+            const rejected = results.filter((result) => result.receipt === null);
+            rejected.forEach(describeRejection);
+            const preconfirmed = results.length - rejected.length;
+            console.log(`${accounts.length} account(s) x ${CHAIN_LENGTH} transaction(s): ${preconfirmed} preconfirmed`);
+
+            const { transactions, missing } = await finalizeAll(provider, results, options.finalTimeout);
+            const failures = rejected.length + missing + reportTransactions(transactions);
+            h.detail("failures", failures);
+            if (failures > 0) {
+                throw new Error(`${failures} problem(s) across ${accounts.length} parallel sender(s)`);
+            }
+        });
+
+        await h.test({ id: "nonce-gap", title: "Transaction with a nonce gap" }, async () => {
+            await requireBalance(provider, address, signer.cost() * 2n, "nonce gap");
+            const nonce = await pendingNonce(provider, address);
+            const gapped = await signer.sign(wallet, nonce + 1);
+            const filler = await signer.sign(wallet, nonce);
+
+            console.log(`Sending nonce ${nonce + 1} while the next nonce is ${nonce}...`);
+            const pending = sendSync(provider, gapped);
+            const early = await settleWithin(pending, options.gapTimeout * 1000);
+            if (early) {
+                skipIfUnsupported([early]);
+            }
+            let failures = 0;
+            let behaviour: string;
+            if (!early) {
+                behaviour = "held";
+                console.log(`⚠ No answer after ${options.gapTimeout}s: the node holds the gapped transaction`);
+            } else if (early.receipt) {
+                behaviour = "preconfirmed";
+                console.error(`  ✗ Nonce ${nonce + 1} preconfirmed before nonce ${nonce} was sent`);
+                failures++;
+            } else {
+                behaviour = "rejected";
+                const category = describeRejection(early);
+                if (GAP_CATEGORIES.includes(category)) {
+                    console.log(`✓ Rejected as ${category}`);
+                } else {
+                    const expected = GAP_CATEGORIES.join(", ");
+                    console.error(`  ✗ The error does not say the nonce is ahead (expected ${expected})`);
+                    failures++;
+                }
+            }
+
+            console.log(`\nFilling the gap with nonce ${nonce}...`);
+            const fill = await sendSync(provider, filler);
+            if (!fill.receipt) {
+                describeRejection(fill);
+                throw new Error(`nonce ${nonce} was not preconfirmed`);
+            }
+            const results = [fill];
+            if (!early) {
+                // A held transaction can go ahead once the gap is filled
+                const late = await settleWithin(pending, options.finalTimeout * 1000);
+                if (!late) {
+                    console.error(`  ✗ Nonce ${nonce + 1} still unanswered after ${options.finalTimeout}s more`);
+                    failures++;
+                } else if (!late.receipt) {
+                    behaviour = "held, then rejected";
+                    const category = describeRejection(late);
+                    if (GAP_CATEGORIES.includes(category)) {
+                        console.log(`⚠ Nonce ${nonce + 1} was rejected as ${category} after the gap was filled`);
+                    } else {
+                        const expected = GAP_CATEGORIES.join(", ");
+                        console.error(`  ✗ Nonce ${nonce + 1} rejected after the fill (expected ${expected})`);
+                        failures++;
+                    }
+                } else {
+                    console.log(`✓ Nonce ${nonce + 1} preconfirmed once the gap was filled`);
+                    results.push(late);
+                }
+            }
+
+            h.detail("behaviour", behaviour);
+
+            const { transactions, missing } = await finalizeAll(provider, results, options.finalTimeout);
+            failures += missing + reportTransactions(transactions);
+            if (behaviour === "rejected" || behaviour === "held, then rejected") {
+                // A rejected transaction must not be included later
+                const receipt = await provider.send("eth_getTransactionReceipt", [ethers.keccak256(gapped)]);
+                if (receipt) {
+                    console.error(`  ✗ Rejected nonce ${nonce + 1} included in block ${Number(receipt.blockNumber)}`);
+                    failures++;
+                }
+            }
+            h.detail("failures", failures);
+            if (failures > 0) {
+                throw new Error(`${failures} problem(s) with a gapped nonce`);
+            }
+        });
+
+        await h.test({ id: "replacement", title: "Replacement of a preconfirmed transaction" }, async () => {
+            await requireBalance(provider, address, signer.cost() + signer.cost(2n) * 2n, "replacement");
+            const nonce = await pendingNonce(provider, address);
+            const original = await sendSync(provider, await signer.sign(wallet, nonce));
+            skipIfUnsupported([original]);
+            if (!original.receipt) {
+                describeRejection(original);
+                throw new Error(`nonce ${nonce} was not preconfirmed`);
+            }
+            console.log(`✓ Nonce ${nonce} preconfirmed: ${original.hash}`);
+
+            // Same nonce, double the fee: a txpool would accept this as a replacement
+            console.log("Sending a replacement at double the fee...");
+            const replacement = await sendSync(provider, await signer.sign(wallet, nonce, { value: 2n, bump: 2n }));
+            let failures = 0;
+            if (replacement.receipt) {
+                console.error(`  ✗ The replacement ${replacement.hash} was preconfirmed too`);
+                failures++;
+            } else {
+                const category = describeRejection(replacement);
+                if (REPLACEMENT_CATEGORIES.includes(category)) {
+                    console.log(`✓ Rejected as ${category}`);
+                } else {
+                    const expected = REPLACEMENT_CATEGORIES.join(", ");
+                    console.error(`  ✗ The error does not say the nonce is taken (expected ${expected})`);
+                    failures++;
+                }
+                h.detail("rejection", { category, ...rpcErrorOf(replacement.error) });
+            }
+
+            const { transactions, missing } = await finalizeAll(provider, [original], options.finalTimeout);
+            failures += missing + reportTransactions(transactions);
+            const replaced = await provider.send("eth_getTransactionReceipt", [replacement.hash]);
+            if (replaced) {
+                console.error(`  ✗ The replacement was included in block ${Number(replaced.blockNumber)}`);
+                failures++;
+            }
+            h.detail("failures", failures);
+            if (failures > 0) {
+                throw new Error(`${failures} problem(s) replacing a preconfirmed transaction`);
+            }
+        });
+    },
+});
+
+if (isEntryPoint(import.meta.url)) {
+    runMain(syncScenariosSuite);
+}
@@ -5,317 +5,794 @@
  */
 
 import { ethers } from "ethers";
-import * as dotenv from "dotenv";
-import { readFileSync, existsSync } from "fs";
-import { join, dirname } from "path";
-import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import {
+    ClzDemoFactory,
+    ModExpProbeFactory,
+    Secp256r1VerifierFactory,
+    type ClzDemo,
+    type ModExpProbe,
+    type Secp256r1Verifier,
+} from "./bindings/index.js";
+import { clz, clzFuzzValues } from "./lib/clz.js";
+import { deploymentOptionsFromArgv } from "./lib/deployments.js";
+import { createRng, parseSeed, randomSeed, shrinkBigInt } from "./lib/fuzz.js";
+import { defineSuite, isEntryPoint, runMain, skip } from "./lib/harness.js";
+import {
+    encodeModExpInput,
+    MODEXP_ADDRESS,
+    MODEXP_MAX_INPUT_LENGTH,
+    modExpGas,
+    modExpOutput,
+    type ModExpInput,
+} from "./lib/modexp.js";
+import {
+    edgeCaseVectors,
+    generateVectors,
+    loadWycheproof,
+    P256_N,
+    P256VERIFY_ADDRESS,
+    P256VERIFY_GAS,
+    packInput,
+    WYCHEPROOF_PATH,
+    type P256Vector,
+} from "./lib/p256.js";
+import { staticcallWithGas } from "./lib/precompile-call.js";
+import { rpcErrorOf } from "./lib/rpc.js";
+import {
+    assertionMessageHash,
+    checkAssertion,
+    createPasskey,
+    decodeDerSignature,
+    FLAG_USER_PRESENT,
+    getAssertion,
+} from "./lib/webauthn.js";
+
+/** Signatures generated locally per run */
+const GENERATED_P256_VECTORS = 8;
+
+/** Relying party the test passkey is registered with */
+const WEBAUTHN_RP_ID = "wallet.example.com";
+const WEBAUTHN_ORIGIN = "https://wallet.example.com";
+
+/** Cases checked in parallel; each one makes a few eth_calls */
+const CALL_CONCURRENCY = 16;
+
+/** Base and modulus lengths of the ModExp gas grid, in bytes */
+const MODEXP_GRID_LENGTHS = [1, 16, 32, 33, 64, 256];
+/** Exponent lengths of the ModExp gas grid, in bytes */
+const MODEXP_GRID_EXPONENT_LENGTHS = [1, 8, 32, 33, 64];
+
+/** Values per CLZ fuzz run, and per clzBatch call */
+const CLZ_FUZZ_COUNT = 4096;
+const CLZ_FUZZ_CHUNK = 256;
+/** Failing CLZ inputs shrunk before reporting; each shrink makes a few clzBatch calls */
+const CLZ_SHRINK_LIMIT = 10;
+
+/** Gas forwarded to the bare ModExp precompile when the call is expected to fail */
+const MODEXP_FAILURE_GAS = 1_000_000n;
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-dotenv.config();
-
-type ForgeArtifact = {
-    abi: any[];
-    bytecode?: string | { object: string };
-};
-
-function loadArtifact(relativePath: string): ForgeArtifact {
-    const fullPath = join(__dirname, relativePath);
-    if (!existsSync(fullPath)) {
-        throw new Error(`Artifact not found at ${fullPath}. Did you run "forge build"?`);
+/**
+ * @notice Map `items` through `fn`, CALL_CONCURRENCY at a time, preserving order
+ */
+async function mapInBatches<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = [];
+    for (let i = 0; i < items.length; i += CALL_CONCURRENCY) {
+        results.push(...(await Promise.all(items.slice(i, i + CALL_CONCURRENCY).map(fn))));
     }
-    const raw = readFileSync(fullPath, "utf-8");
-    return JSON.parse(raw) as ForgeArtifact;
+    return results;
 }
 
-function getBytecode(artifact: ForgeArtifact): string {
-    // Support both Foundry-style (`bytecode`: string) and Hardhat-style (`bytecode.object`: string)
-    const bc = (artifact as any).bytecode;
-    if (typeof bc === "string") {
-        return bc;
-    }
-    if (bc && typeof bc.object === "string") {
-        return bc.object;
+/**
+ * @notice Run one vector through the three Secp256r1Verifier entry points and the bare precompile
+ * @dev The bare precompile is called with exactly 3450 gas, which must succeed, and with 3449,
+ *      which must run out of gas.
+ * @return Mismatches, empty when the vector behaves as expected
+ */
+async function checkP256Vector(
+    provider: ethers.JsonRpcProvider,
+    verifier: Secp256r1Verifier,
+    vector: P256Vector
+): Promise<string[]> {
+    const input = packInput(vector);
+    const [viaVerify, viaPacked, [gasUsed, viaTracking], atCost, belowCost] = await Promise.all([
+        verifier.verify(vector.x, vector.y, vector.hash, vector.r, vector.s),
+        verifier.verifyPacked(input),
+        verifier.verifyWithGasTracking(vector.x, vector.y, vector.hash, vector.r, vector.s),
+        staticcallWithGas(provider, P256VERIFY_ADDRESS, input, P256VERIFY_GAS),
+        staticcallWithGas(provider, P256VERIFY_ADDRESS, input, P256VERIFY_GAS - 1n),
+    ]);
+
+    const problems: string[] = [];
+    const expect = (entryPoint: string, actual: boolean) => {
+        if (actual !== vector.expected) {
+            problems.push(`${entryPoint} returned ${actual}, expected ${vector.expected}`);
+        }
+    };
+    expect("verify()", viaVerify);
+    expect("verifyPacked()", viaPacked);
+    expect("verifyWithGasTracking()", viaTracking);
+    if (gasUsed < P256VERIFY_GAS) {
+        problems.push(`verifyWithGasTracking() used ${gasUsed} gas, below the ${P256VERIFY_GAS} precompile cost`);
     }
-    throw new Error("Unable to determine contract bytecode from artifact");
-}
 
-async function testOsakaOnchain() {
-    const rpcUrl = process.env.ETH_RPC_URL;
-    const privateKey = process.env.PRIVATE_KEY || "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
-
-    if (!rpcUrl) {
-        console.error("ERROR: ETH_RPC_URL environment variable not set");
-        process.exit(1);
+    // EIP-7951: 32-byte 1 on success, empty output otherwise
+    const expectedOutput = vector.expected ? ethers.toBeHex(1, 32) : "0x";
+    if (!atCost.success) {
+        problems.push(`precompile failed with exactly ${P256VERIFY_GAS} gas`);
+    } else if (atCost.returnData !== expectedOutput) {
+        problems.push(`precompile returned "${atCost.returnData}", expected "${expectedOutput}"`);
+    }
+    if (belowCost.success) {
+        problems.push(`precompile succeeded with ${P256VERIFY_GAS - 1n} gas`);
     }
+    return problems;
+}
 
-    console.log(`Connecting to RPC: ${rpcUrl}`);
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const wallet = new ethers.Wallet(privateKey, provider);
+interface ModExpCase {
+    /** e.g. "B=32 E=33 M=64 random" */
+    label: string;
+    input: ModExpInput;
+}
 
-    const testAddress = await wallet.getAddress();
-    console.log(`Test account: ${testAddress}`);
+interface ModExpCaseResult {
+    problems: string[];
+    expectedGas: bigint;
+    /** modExpWithGasTracking gas minus the expected precompile cost */
+    overhead: bigint;
+}
 
-    const balance = await provider.getBalance(testAddress);
-    console.log(`Balance: ${ethers.formatEther(balance)} ETH\n`);
+/**
+ * @notice Two cases per grid point, sharing lengths: random values, and the exponent 1
+ * @dev Random bytes get their top bit set so the exponent head has its full bit length.
+ */
+function modExpGrid(): ModExpCase[][] {
+    const random = (length: number) => {
+        const bytes = ethers.randomBytes(length);
+        bytes[0] |= 0x80;
+        return ethers.hexlify(bytes);
+    };
+    const points: ModExpCase[][] = [];
+    for (const baseLength of MODEXP_GRID_LENGTHS) {
+        for (const exponentLength of MODEXP_GRID_EXPONENT_LENGTHS) {
+            for (const modulusLength of MODEXP_GRID_LENGTHS) {
+                const sizes = `B=${baseLength} E=${exponentLength} M=${modulusLength}`;
+                const base = random(baseLength);
+                const modulus = random(modulusLength);
+                points.push([
+                    { label: `${sizes} random`, input: { base, exponent: random(exponentLength), modulus } },
+                    { label: `${sizes} exponent 1`, input: { base, exponent: ethers.toBeHex(1, exponentLength), modulus } },
+                ]);
+            }
+        }
+    }
+    return points;
+}
 
-    if (balance === 0n) {
-        console.error("ERROR: Test account has no balance. Please fund it first.");
-        process.exit(1);
+/**
+ * @notice Compare one ModExp call with the local model
+ * @dev The result of modExpWithGasTracking must equal the local modPow. Its gas includes the
+ *      wrapper's own cost, so it is only checked to be at least the expected cost here. The bare
+ *      precompile must return the same result with exactly the expected gas and run out of gas
+ *      with one less.
+ */
+async function checkModExpCase(
+    provider: ethers.JsonRpcProvider,
+    probe: ModExpProbe,
+    { label, input }: ModExpCase
+): Promise<ModExpCaseResult> {
+    const expectedGas = modExpGas(input);
+    if (expectedGas === null) {
+        throw new Error(`ModExp case "${label}" is outside the EIP-7823 input bounds`);
+    }
+    const expectedOutput = modExpOutput(input);
+    const calldata = encodeModExpInput(input);
+    const [[result, gasUsed, success], atCost, belowCost] = await Promise.all([
+        probe.modExpWithGasTracking(input.base, input.exponent, input.modulus),
+        staticcallWithGas(provider, MODEXP_ADDRESS, calldata, expectedGas),
+        staticcallWithGas(provider, MODEXP_ADDRESS, calldata, expectedGas - 1n),
+    ]);
+
+    const problems: string[] = [];
+    if (!success) {
+        problems.push("modExpWithGasTracking() call failed");
+    } else if (result !== expectedOutput) {
+        problems.push(`modExpWithGasTracking() returned ${result}, modPow gives ${expectedOutput}`);
+    }
+    if (gasUsed < expectedGas) {
+        problems.push(`modExpWithGasTracking() used ${gasUsed} gas, below the expected ${expectedGas}`);
+    }
+    if (!atCost.success) {
+        problems.push(`precompile failed with the expected ${expectedGas} gas`);
+    } else if (atCost.returnData !== expectedOutput) {
+        problems.push(`precompile returned ${atCost.returnData}, modPow gives ${expectedOutput}`);
     }
+    if (belowCost.success) {
+        problems.push(`precompile succeeded with ${expectedGas - 1n} gas, expected cost ${expectedGas}`);
+    }
+    return { problems, expectedGas, overhead: gasUsed - expectedGas };
+}
 
-    let allPassed = true;
+interface ModExpBoundsCase {
+    label: string;
+    /** Declared Bsize, Esize, Msize */
+    lengths: [number, number, number];
+    /** Bytes of data actually sent after the header; all of it when absent */
+    dataBytes?: number;
+}
 
-    // Test 1: Deploy and test CLZ contract
-    console.log("=== Test 1: CLZ Opcode (EIP-7939) ===");
-    try {
-        const clzArtifact = loadArtifact("../../out/ClzDemo.sol/ClzDemo.json");
+interface ModExpBoundsOutcome {
+    method: "probeBounds" | "eth_call" | "staticcall";
+    accepted: boolean;
+    /** How the call succeeded or failed, e.g. "success=false, all 1000000 forwarded gas consumed" */
+    shape: string;
+    problem: string | null;
+}
 
-        console.log("Deploying ClzDemo contract...");
-        const ClzFactory = new ethers.ContractFactory(
-            clzArtifact.abi,
-            getBytecode(clzArtifact),
-            wallet
+/**
+ * @notice Each length at 1024 and 1025 alone, in combination, and declared without the data
+ * @dev Combinations keep the exponent at 1 byte when base and modulus are large: a 1024-byte
+ *      exponent with a 1024-byte modulus costs over 500M gas, far above any eth_call budget.
+ */
+function modExpBoundsCases(): ModExpBoundsCase[] {
+    const positions = ["base", "exponent", "modulus"];
+    const withLength = (position: number, length: number): [number, number, number] => {
+        const lengths: [number, number, number] = [1, 1, 1];
+        lengths[position] = length;
+        return lengths;
+    };
+    const cases: ModExpBoundsCase[] = [];
+    for (const length of [MODEXP_MAX_INPUT_LENGTH, MODEXP_MAX_INPUT_LENGTH + 1]) {
+        positions.forEach((name, i) => cases.push({ label: `${name} ${length}`, lengths: withLength(i, length) }));
+    }
+    cases.push(
+        { label: "base and modulus 1024", lengths: [1024, 1, 1024] },
+        { label: "base 1025, modulus 1024", lengths: [1025, 1, 1024] },
+        { label: "base 1024, modulus 1025", lengths: [1024, 1, 1025] },
+        { label: "all three 1025", lengths: [1025, 1025, 1025] }
+    );
+    for (const length of [MODEXP_MAX_INPUT_LENGTH, MODEXP_MAX_INPUT_LENGTH + 1]) {
+        positions.forEach((name, i) =>
+            cases.push({
+                label: `${name} declared ${length}, 32 bytes of data`,
+                lengths: withLength(i, length),
+                dataBytes: 32,
+            })
         );
+    }
+    return cases;
+}
 
-        const clzDemo = await ClzFactory.deploy();
-        await clzDemo.waitForDeployment();
-        const clzAddress = await clzDemo.getAddress();
-        console.log(`✓ ClzDemo deployed at: ${clzAddress}`);
-
-        // Test CLZ(0) = 256
-        console.log("\nTesting CLZ(0)...");
-        const result0 = await (clzDemo as any).countLeadingZeros(0);
-        if (result0 === 256n) {
-            console.log(`✓ CLZ(0) = ${result0} (expected: 256)`);
-        } else {
-            console.error(`✗ CLZ(0) = ${result0} (expected: 256)`);
-            allPassed = false;
-        }
-
-        // Test CLZ(1) = 255
-        console.log("Testing CLZ(1)...");
-        const result1 = await (clzDemo as any).countLeadingZeros(1);
-        if (result1 === 255n) {
-            console.log(`✓ CLZ(1) = ${result1} (expected: 255)`);
-        } else {
-            console.error(`✗ CLZ(1) = ${result1} (expected: 255)`);
-            allPassed = false;
-        }
-
-        // Test CLZ(max) = 0
-        console.log("Testing CLZ(max)...");
-        const resultMax = await (clzDemo as any).countLeadingZeros(ethers.MaxUint256);
-        if (resultMax === 0n) {
-            console.log(`✓ CLZ(max) = ${resultMax} (expected: 0)`);
-        } else {
-            console.error(`✗ CLZ(max) = ${resultMax} (expected: 0)`);
-            allPassed = false;
-        }
+/** The byte pattern ModExpProbe.probeBounds fills its inputs with */
+function probeBoundsFill(length: number): string {
+    return ethers.hexlify(Uint8Array.from({ length }, (_, i) => (i % 255) + 1));
+}
 
-        // Test CLZ(2^255) = 0
-        console.log("Testing CLZ(2^255)...");
-        const result255 = await (clzDemo as any).countLeadingZeros(2n ** 255n);
-        if (result255 === 0n) {
-            console.log(`✓ CLZ(2^255) = ${result255} (expected: 0)`);
-        } else {
-            console.error(`✗ CLZ(2^255) = ${result255} (expected: 0)`);
-            allPassed = false;
+/**
+ * @notice Run one bounds case through probeBounds, a plain eth_call to 0x05 and a gas-exact
+ *         staticcall, and describe each outcome
+ */
+async function checkModExpBounds(
+    provider: ethers.JsonRpcProvider,
+    probe: ModExpProbe,
+    c: ModExpBoundsCase
+): Promise<{ expectAccepted: boolean; outcomes: ModExpBoundsOutcome[] }> {
+    const [baseLength, exponentLength, modulusLength] = c.lengths;
+    const expectAccepted = c.lengths.every((length) => length <= MODEXP_MAX_INPUT_LENGTH);
+    const data = ethers.getBytes(
+        ethers.concat([probeBoundsFill(baseLength), probeBoundsFill(exponentLength), probeBoundsFill(modulusLength)])
+    );
+    const sent = data.subarray(0, c.dataBytes ?? data.length);
+    // Missing data reads as zeros
+    data.fill(0, sent.length);
+    const effective: ModExpInput = {
+        base: ethers.hexlify(data.subarray(0, baseLength)),
+        exponent: ethers.hexlify(data.subarray(baseLength, baseLength + exponentLength)),
+        modulus: ethers.hexlify(data.subarray(baseLength + exponentLength)),
+    };
+    const calldata = ethers.concat([...c.lengths.map((length) => ethers.toBeHex(length, 32)), sent]);
+    const expectedOutput = expectAccepted ? modExpOutput(effective) : null;
+    const outputProblem = (output: string) =>
+        expectedOutput !== null && output !== expectedOutput
+            ? `returned ${output.slice(0, 18)}..., modPow gives ${expectedOutput.slice(0, 18)}...`
+            : null;
+
+    const outcomes: ModExpBoundsOutcome[] = [];
+    if (c.dataBytes === undefined) {
+        try {
+            const [success, gasUsed] = await probe.probeBounds(baseLength, exponentLength, modulusLength);
+            outcomes.push({
+                method: "probeBounds",
+                accepted: success,
+                shape: success ? `success, ${gasUsed} gas` : `success=false, ${gasUsed} gas consumed`,
+                problem: null,
+            });
+        } catch (error: any) {
+            const { code, message } = rpcErrorOf(error);
+            const shape = `reverted (code ${code ?? "none"}: ${message})`;
+            outcomes.push({ method: "probeBounds", accepted: false, shape, problem: null });
         }
+    }
 
-        // Test clzBatch
-        console.log("\nTesting clzBatch...");
-        const batchValues = [0n, 1n, 256n, ethers.MaxUint256];
-        const batchResults = await (clzDemo as any).clzBatch(batchValues);
-        if (batchResults.length === 4 && 
-            batchResults[0] === 256n && 
-            batchResults[1] === 255n && 
-            batchResults[2] === 247n && 
-            batchResults[3] === 0n) {
-            console.log(`✓ clzBatch([0, 1, 256, max]) = [256, 255, 247, 0] (correct)`);
-        } else {
-            console.error(`✗ clzBatch returned unexpected results: ${batchResults}`);
-            allPassed = false;
-        }
+    try {
+        const output: string = await provider.send("eth_call", [{ to: MODEXP_ADDRESS, data: calldata }, "latest"]);
+        outcomes.push({
+            method: "eth_call",
+            accepted: true,
+            shape: `returned ${ethers.dataLength(output)} bytes`,
+            problem: outputProblem(output),
+        });
+    } catch (error: any) {
+        const { code, message } = rpcErrorOf(error);
+        const shape = `error (code ${code ?? "none"}: ${message})`;
+        outcomes.push({ method: "eth_call", accepted: false, shape, problem: null });
+    }
 
-        // Test clzWithValidation
-        console.log("Testing clzWithValidation...");
-        const [count0, isValid0] = await (clzDemo as any).clzWithValidation(0);
-        if (count0 === 256n && isValid0 === true) {
-            console.log(`✓ clzWithValidation(0) = (256, true) (correct)`);
-        } else {
-            console.error(`✗ clzWithValidation(0) = (${count0}, ${isValid0}) (expected: (256, true))`);
-            allPassed = false;
+    const gas = expectAccepted ? modExpGas(effective) : MODEXP_FAILURE_GAS;
+    if (gas === null) {
+        throw new Error(`ModExp bounds case "${c.label}" is expected to be accepted but has no Osaka gas cost`);
+    }
+    const call = await staticcallWithGas(provider, MODEXP_ADDRESS, calldata, gas);
+    outcomes.push({
+        method: "staticcall",
+        accepted: call.success,
+        shape: call.success
+            ? `success, ${call.gasUsed} gas`
+            : call.gasUsed === gas
+              ? `success=false, all ${gas} forwarded gas consumed`
+              : `success=false, ${call.gasUsed} of ${gas} forwarded gas consumed`,
+        problem: call.success ? outputProblem(call.returnData) : null,
+    });
+
+    for (const outcome of outcomes) {
+        if (outcome.accepted !== expectAccepted) {
+            outcome.problem = `${expectAccepted ? "rejected" : "accepted"}, expected ${expectAccepted ? "success" : "failure"}`;
         }
-
-        console.log("\n✓ CLZ tests completed");
-    } catch (error: any) {
-        console.error(`✗ CLZ tests failed: ${error.message}`);
-        allPassed = false;
     }
+    return { expectAccepted, outcomes };
+}
 
-    // Test 2: Test secp256r1 precompile
-    console.log("\n=== Test 2: secp256r1 Precompile (EIP-7951) ===");
-    try {
-        const secp256r1Artifact = loadArtifact("../../out/Secp256r1Verifier.sol/Secp256r1Verifier.json");
+export const osakaOnchainSuite = defineSuite({
+    id: "osaka-onchain",
+    title: "Osaka on-chain features",
+    eips: [7939, 7951, 7823, 7883],
+    async run(h) {
+        const wallet = await h.fundedWallet();
+        const deploymentOptions = deploymentOptionsFromArgv(h.argv);
+
+        let clzDeployment: Promise<ClzDemo> | null = null;
+        const getClzDemo = () => {
+            clzDeployment ??= ClzDemoFactory.deployOrReuse(wallet, deploymentOptions);
+            return clzDeployment;
+        };
+
+        // Test 1: Deploy and test CLZ contract
+        await h.test({ id: "clz", title: "Test 1: CLZ Opcode (EIP-7939)", eips: [7939] }, async () => {
+            let failures = 0;
+            const clzDemo = await getClzDemo();
+
+            // Test CLZ(0) = 256
+            console.log("\nTesting CLZ(0)...");
+            const result0 = await clzDemo.countLeadingZeros(0);
+            if (result0 === 256n) {
+                console.log(`✓ CLZ(0) = ${result0} (expected: 256)`);
+            } else {
+                console.error(`✗ CLZ(0) = ${result0} (expected: 256)`);
+                failures++;
+            }
 
-        console.log("Deploying Secp256r1Verifier contract...");
-        const Secp256r1Factory = new ethers.ContractFactory(
-            secp256r1Artifact.abi,
-            getBytecode(secp256r1Artifact),
-            wallet
-        );
+            // Test CLZ(1) = 255
+            console.log("Testing CLZ(1)...");
+            const result1 = await clzDemo.countLeadingZeros(1);
+            if (result1 === 255n) {
+                console.log(`✓ CLZ(1) = ${result1} (expected: 255)`);
+            } else {
+                console.error(`✗ CLZ(1) = ${result1} (expected: 255)`);
+                failures++;
+            }
 
-        const secp256r1 = await Secp256r1Factory.deploy();
-        await secp256r1.waitForDeployment();
-        const secp256r1Address = await secp256r1.getAddress();
-        console.log(`✓ Secp256r1Verifier deployed at: ${secp256r1Address}`);
-
-        // Test with dummy values (should fail verification but not revert)
-        console.log("\nTesting secp256r1 precompile availability...");
-        const dummyPubKeyX = ethers.hexlify(ethers.randomBytes(32));
-        const dummyPubKeyY = ethers.hexlify(ethers.randomBytes(32));
-        const dummyHash = ethers.keccak256(ethers.toUtf8Bytes("test"));
-        const dummySigR = ethers.hexlify(ethers.randomBytes(32));
-        const dummySigS = ethers.hexlify(ethers.randomBytes(32));
-
-        const isValid = await (secp256r1 as any).verify(
-            dummyPubKeyX,
-            dummyPubKeyY,
-            dummyHash,
-            dummySigR,
-            dummySigS
-        );
+            // Test CLZ(max) = 0
+            console.log("Testing CLZ(max)...");
+            const resultMax = await clzDemo.countLeadingZeros(ethers.MaxUint256);
+            if (resultMax === 0n) {
+                console.log(`✓ CLZ(max) = ${resultMax} (expected: 0)`);
+            } else {
+                console.error(`✗ CLZ(max) = ${resultMax} (expected: 0)`);
+                failures++;
+            }
 
-        console.log(`✓ secp256r1 verify() - precompile is available (dummy signature invalid: ${!isValid})`);
+            // Test CLZ(2^255) = 0
+            console.log("Testing CLZ(2^255)...");
+            const result255 = await clzDemo.countLeadingZeros(2n ** 255n);
+            if (result255 === 0n) {
+                console.log(`✓ CLZ(2^255) = ${result255} (expected: 0)`);
+            } else {
+                console.error(`✗ CLZ(2^255) = ${result255} (expected: 0)`);
+                failures++;
+            }
 
-        // Test verifyWithGasTracking
-        console.log("\nTesting verifyWithGasTracking...");
-        const [gasUsed, isValid2] = await (secp256r1 as any).verifyWithGasTracking(
-            dummyPubKeyX,
-            dummyPubKeyY,
-            dummyHash,
-            dummySigR,
-            dummySigS
-        );
-        if (gasUsed > 0n && isValid2 === false) {
-            console.log(`✓ verifyWithGasTracking() - gas used: ${gasUsed.toString()}, signature invalid (correct)`);
-        } else {
-            console.error(`✗ verifyWithGasTracking() returned unexpected values: gas=${gasUsed}, valid=${isValid2}`);
-            allPassed = false;
-        }
+            // Test clzBatch
+            console.log("\nTesting clzBatch...");
+            const batchValues = [0n, 1n, 256n, ethers.MaxUint256];
+            const batchResults = await clzDemo.clzBatch(batchValues);
+            if (batchResults.length === 4 && 
+                batchResults[0] === 256n && 
+                batchResults[1] === 255n && 
+                batchResults[2] === 247n && 
+                batchResults[3] === 0n) {
+                console.log(`✓ clzBatch([0, 1, 256, max]) = [256, 255, 247, 0] (correct)`);
+            } else {
+                console.error(`✗ clzBatch returned unexpected results: ${batchResults}`);
+                failures++;
+            }
 
-        // Test verifyPacked
-        console.log("\nTesting verifyPacked...");
-        const packedInput = ethers.concat([
-            dummyPubKeyX,
-            dummyPubKeyY,
-            dummyHash,
-            dummySigR,
-            dummySigS
-        ]);
-        const isValid3 = await (secp256r1 as any).verifyPacked(packedInput);
-        if (isValid3 === false) {
-            console.log(`✓ verifyPacked() - dummy signature invalid (correct)`);
-        } else {
-            console.error(`✗ verifyPacked() returned unexpected result: ${isValid3}`);
-            allPassed = false;
-        }
+            // Test clzWithValidation
+            console.log("Testing clzWithValidation...");
+            const [count0, isValid0] = await clzDemo.clzWithValidation(0);
+            if (count0 === 256n && isValid0 === true) {
+                console.log(`✓ clzWithValidation(0) = (256, true) (correct)`);
+            } else {
+                console.error(`✗ clzWithValidation(0) = (${count0}, ${isValid0}) (expected: (256, true))`);
+                failures++;
+            }
 
-        console.log("\n✓ secp256r1 tests completed");
-    } catch (error: any) {
-        console.error(`✗ secp256r1 tests failed: ${error.message}`);
-        allPassed = false;
-    }
+            if (failures > 0) {
+                throw new Error(`${failures} CLZ check(s) failed`);
+            }
+        });
+
+        let modExpDeployment: Promise<ModExpProbe> | null = null;
+        const getModExpProbe = () => {
+            modExpDeployment ??= ModExpProbeFactory.deployOrReuse(wallet, deploymentOptions);
+            return modExpDeployment;
+        };
+
+        let secp256r1Deployment: Promise<Secp256r1Verifier> | null = null;
+        const getSecp256r1 = () => {
+            secp256r1Deployment ??= Secp256r1VerifierFactory.deployOrReuse(wallet, deploymentOptions);
+            return secp256r1Deployment;
+        };
+
+        // Test 2: secp256r1 precompile against known-answer vectors
+        await h.test({ id: "secp256r1", title: "Test 2: secp256r1 Precompile (EIP-7951)", eips: [7951] }, async () => {
+            const args = parseArgs({ args: h.argv, options: { wycheproof: { type: "string" } }, strict: false });
+            const secp256r1 = await getSecp256r1();
+
+            const generated = generateVectors(GENERATED_P256_VECTORS);
+            const edgeCases = edgeCaseVectors(generated[0]);
+            const vectors = [...generated, ...edgeCases];
+            console.log(`\nGenerated ${generated.length} signatures and ${edgeCases.length} EIP-7951 edge cases`);
+
+            const wycheproofPath = typeof args.values.wycheproof === "string" ? args.values.wycheproof : WYCHEPROOF_PATH;
+            const wycheproof = loadWycheproof(wycheproofPath);
+            if (wycheproof) {
+                console.log(
+                    `Loaded ${wycheproof.vectors.length} Wycheproof vectors from ${wycheproofPath} ` +
+                        `(${wycheproof.skipped} not expressible as precompile input)`
+                );
+                vectors.push(...wycheproof.vectors);
+            } else {
+                console.warn(`⚠ Wycheproof vectors not found at ${wycheproofPath}; run "npm run vectors:wycheproof"`);
+            }
 
-    // Test 3: Test ModExp precompile
-    console.log("\n=== Test 3: ModExp Precompile (EIP-7823 / 7883) ===");
-    try {
-        const modExpArtifact = loadArtifact("../../out/ModExpProbe.sol/ModExpProbe.json");
+            const failed: string[] = [];
+            const problems = await mapInBatches(vectors, (vector) => checkP256Vector(h.provider, secp256r1, vector));
+            vectors.forEach((vector, i) => {
+                for (const problem of problems[i]) {
+                    console.error(`✗ ${vector.id} (${vector.comment}): ${problem}`);
+                }
+                if (problems[i].length > 0) {
+                    failed.push(vector.id);
+                }
+            });
+
+            for (const source of ["generated", "edge-case", "wycheproof"] as const) {
+                const total = vectors.filter((vector) => vector.source === source).length;
+                if (total > 0) {
+                    const passed = total - failed.filter((id) => id.startsWith(`${source}/`)).length;
+                    console.log(`${passed === total ? "✓" : "✗"} ${source}: ${passed}/${total} vectors as expected`);
+                }
+            }
+            h.detail("vectors", {
+                generated: generated.length,
+                edgeCases: edgeCases.length,
+                wycheproof: wycheproof?.vectors.length ?? null,
+                failed,
+            });
+
+            if (failed.length > 0) {
+                throw new Error(`${failed.length} of ${vectors.length} secp256r1 vector(s) failed`);
+            }
+        });
+
+        // Test 3: WebAuthn assertion from a software passkey, verified the way passkey wallets do
+        await h.test({ id: "webauthn", title: "Test 3: WebAuthn Passkey Assertion (EIP-7951)", eips: [7951] }, async () => {
+            let failures = 0;
+            const secp256r1 = await getSecp256r1();
+            const passkey = createPasskey(WEBAUTHN_RP_ID);
+            console.log(`\nCreated passkey ${passkey.credentialId} for ${passkey.rpId}`);
+
+            // The challenge is the hash of the operation being authorized
+            const { chainId } = await h.provider.getNetwork();
+            const challenge = ethers.solidityPackedKeccak256(
+                ["uint256", "address", "uint256"],
+                [chainId, await secp256r1.getAddress(), passkey.signCount]
+            );
+            const assertion = getAssertion(passkey, challenge, WEBAUTHN_ORIGIN);
+            console.log(`authenticatorData: ${assertion.authenticatorData}`);
+            console.log(`clientDataJSON:    ${assertion.clientDataJSON}`);
+            h.detail("assertion", assertion);
+
+            const rpProblems = checkAssertion(assertion, { rpId: WEBAUTHN_RP_ID, origin: WEBAUTHN_ORIGIN, challenge });
+            if (rpProblems.length > 0) {
+                throw new Error(`assertion rejected by relying-party checks: ${rpProblems.join("; ")}`);
+            }
+            console.log("✓ clientDataJSON and authenticatorData pass relying-party checks");
+
+            const hash = assertionMessageHash(assertion);
+            const { r, s } = decodeDerSignature(assertion.signature);
+            const forged = (changes: Partial<typeof assertion>) => assertionMessageHash({ ...assertion, ...changes });
+            const cases: [string, string, string, string, boolean][] = [
+                ["assertion", hash, r, s, true],
+                ["assertion with high s (n - s)", hash, r, ethers.toBeHex(P256_N - BigInt(s), 32), true],
+                [
+                    "clientDataJSON with another challenge",
+                    forged({ clientDataJSON: assertion.clientDataJSON.replace(/"challenge":"[^"]*"/, '"challenge":"AAAA"') }),
+                    r,
+                    s,
+                    false,
+                ],
+                [
+                    "authenticatorData without user verification",
+                    forged({
+                        authenticatorData: ethers.concat([
+                            ethers.dataSlice(assertion.authenticatorData, 0, 32),
+                            ethers.toBeHex(FLAG_USER_PRESENT, 1),
+                            ethers.dataSlice(assertion.authenticatorData, 33),
+                        ]),
+                    }),
+                    r,
+                    s,
+                    false,
+                ],
+                ["challenge used directly as the message hash", challenge, r, s, false],
+            ];
+
+            // The bare precompile is checked too, so a wrong answer is not blamed on the wrapper
+            for (const [label, messageHash, sigR, sigS, expected] of cases) {
+                const input = ethers.concat([passkey.x, passkey.y, messageHash, sigR, sigS]);
+                const [viaVerify, viaPacked, bare] = await Promise.all([
+                    secp256r1.verify(passkey.x, passkey.y, messageHash, sigR, sigS),
+                    secp256r1.verifyPacked(input),
+                    staticcallWithGas(h.provider, P256VERIFY_ADDRESS, input, P256VERIFY_GAS),
+                ]);
+                const viaPrecompile = bare.success && bare.returnData === ethers.toBeHex(1, 32);
+                if (viaPrecompile === expected && viaVerify === expected && viaPacked === expected) {
+                    console.log(`✓ ${label}: ${expected ? "valid" : "invalid"} (correct)`);
+                } else {
+                    console.error(
+                        `✗ ${label}: precompile=${viaPrecompile}, verify()=${viaVerify}, ` +
+                            `verifyPacked()=${viaPacked} (expected: ${expected})`
+                    );
+                    failures++;
+                }
+            }
 
-        console.log("Deploying ModExpProbe contract...");
-        const ModExpFactory = new ethers.ContractFactory(
-            modExpArtifact.abi,
-            getBytecode(modExpArtifact),
-            wallet
-        );
+            if (failures > 0) {
+                throw new Error(`${failures} WebAuthn check(s) failed`);
+            }
+        });
+
+        // Test 4: Test ModExp precompile
+        await h.test({ id: "modexp", title: "Test 4: ModExp Precompile (EIP-7823 / 7883)", eips: [7823, 7883] }, async () => {
+            let failures = 0;
+            const modExp = await getModExpProbe();
+
+            // Test: 2^3 mod 5 = 3
+            console.log("\nTesting ModExp: 2^3 mod 5...");
+            const base = ethers.hexlify(new Uint8Array([2]));
+            const exponent = ethers.hexlify(new Uint8Array([3]));
+            const modulus = ethers.hexlify(new Uint8Array([5]));
+
+            const [resultHex, success] = await modExp.modExp(base, exponent, modulus);
+
+            if (success) {
+                // resultHex is a hex string; convert to bytes to inspect value
+                const resultBytes = ethers.getBytes(resultHex as string);
+                const lastByte = resultBytes[resultBytes.length - 1];
+                if (lastByte === 3) {
+                    console.log(`✓ ModExp(2^3 mod 5) = 3 (correct)`);
+                } else {
+                    console.error(`✗ ModExp(2^3 mod 5) = ${lastByte} (expected: 3)`);
+                    failures++;
+                }
+            } else {
+                console.error(`✗ ModExp call failed`);
+                failures++;
+            }
 
-        const modExp = await ModExpFactory.deploy();
-        await modExp.waitForDeployment();
-        const modExpAddress = await modExp.getAddress();
-        console.log(`✓ ModExpProbe deployed at: ${modExpAddress}`);
-
-        // Test: 2^3 mod 5 = 3
-        console.log("\nTesting ModExp: 2^3 mod 5...");
-        const base = ethers.hexlify(new Uint8Array([2]));
-        const exponent = ethers.hexlify(new Uint8Array([3]));
-        const modulus = ethers.hexlify(new Uint8Array([5]));
-
-        const [resultHex, success] = await (modExp as any).modExp(base, exponent, modulus);
-
-        if (success) {
-            // resultHex is a hex string; convert to bytes to inspect value
-            const resultBytes = ethers.getBytes(resultHex as string);
-            const lastByte = resultBytes[resultBytes.length - 1];
-            if (lastByte === 3) {
-                console.log(`✓ ModExp(2^3 mod 5) = 3 (correct)`);
+            // Test modExpWithGasTracking
+            console.log("\nTesting modExpWithGasTracking...");
+            const [resultHex2, gasUsed, success2] = await modExp.modExpWithGasTracking(base, exponent, modulus);
+            if (success2 && gasUsed > 0n) {
+                const resultBytes2 = ethers.getBytes(resultHex2 as string);
+                const lastByte2 = resultBytes2[resultBytes2.length - 1];
+                if (lastByte2 === 3) {
+                    console.log(`✓ modExpWithGasTracking() - result: 3, gas used: ${gasUsed.toString()} (correct)`);
+                } else {
+                    console.error(`✗ modExpWithGasTracking() - unexpected result: ${lastByte2}`);
+                    failures++;
+                }
             } else {
-                console.error(`✗ ModExp(2^3 mod 5) = ${lastByte} (expected: 3)`);
-                allPassed = false;
+                console.error(`✗ modExpWithGasTracking() failed`);
+                failures++;
             }
-        } else {
-            console.error(`✗ ModExp call failed`);
-            allPassed = false;
-        }
 
-        // Test modExpWithGasTracking
-        console.log("\nTesting modExpWithGasTracking...");
-        const [resultHex2, gasUsed, success2] = await (modExp as any).modExpWithGasTracking(base, exponent, modulus);
-        if (success2 && gasUsed > 0n) {
-            const resultBytes2 = ethers.getBytes(resultHex2 as string);
-            const lastByte2 = resultBytes2[resultBytes2.length - 1];
-            if (lastByte2 === 3) {
-                console.log(`✓ modExpWithGasTracking() - result: 3, gas used: ${gasUsed.toString()} (correct)`);
+            // Test probeBounds with small sizes
+            console.log("\nTesting probeBounds...");
+            const [success3, gasUsed2] = await modExp.probeBounds(32, 32, 32);
+            if (success3 && gasUsed2 > 0n) {
+                console.log(`✓ probeBounds(32, 32, 32) - success: true, gas used: ${gasUsed2.toString()} (correct)`);
             } else {
-                console.error(`✗ modExpWithGasTracking() - unexpected result: ${lastByte2}`);
-                allPassed = false;
+                console.error(`✗ probeBounds() returned unexpected values: success=${success3}, gas=${gasUsed2}`);
+                failures++;
             }
-        } else {
-            console.error(`✗ modExpWithGasTracking() failed`);
-            allPassed = false;
-        }
 
-        // Test probeBounds with small sizes
-        console.log("\nTesting probeBounds...");
-        const [success3, gasUsed2] = await (modExp as any).probeBounds(32, 32, 32);
-        if (success3 && gasUsed2 > 0n) {
-            console.log(`✓ probeBounds(32, 32, 32) - success: true, gas used: ${gasUsed2.toString()} (correct)`);
-        } else {
-            console.error(`✗ probeBounds() returned unexpected values: success=${success3}, gas=${gasUsed2}`);
-            allPassed = false;
-        }
+            if (failures > 0) {
+                throw new Error(`${failures} ModExp check(s) failed`);
+            }
+        });
+
+        // Test 5: ModExp gas and results across a size grid, against the local model
+        await h.test(
+            { id: "modexp-oracle", title: "Test 5: ModExp Gas Oracle (EIP-7883 / EIP-7823)", eips: [7823, 7883] },
+            async () => {
+                const modExp = await getModExpProbe();
+                const points = modExpGrid();
+                console.log(`\nChecking ${points.length} base/exponent/modulus length combinations, 2 values each...`);
+
+                const results = await mapInBatches(points.flat(), (c) => checkModExpCase(h.provider, modExp, c));
+                const mismatches: { case: string; expectedGas: string; problem: string }[] = [];
+                const report = (c: ModExpCase, expectedGas: bigint, problem: string) => {
+                    console.error(`✗ ${c.label} (expected gas ${expectedGas}): ${problem}`);
+                    mismatches.push({ case: c.label, expectedGas: expectedGas.toString(), problem });
+                };
+                points.forEach((cases, i) => {
+                    const [first, second] = [results[2 * i], results[2 * i + 1]];
+                    cases.forEach((c, j) => {
+                        for (const problem of results[2 * i + j].problems) {
+                            report(c, results[2 * i + j].expectedGas, problem);
+                        }
+                    });
+                    // Same lengths, so the wrapper's own cost must be the same for both values
+                    if (first.overhead !== second.overhead) {
+                        report(
+                            cases[1],
+                            second.expectedGas,
+                            `gas difference to the random value is off by ${second.overhead - first.overhead} ` +
+                                `from the model (same lengths, same wrapper cost)`
+                        );
+                    }
+                });
+
+                h.detail("cases", results.length);
+                h.detail("mismatches", mismatches);
+                if (mismatches.length > 0) {
+                    throw new Error(`${mismatches.length} ModExp mismatch(es) across ${results.length} cases`);
+                }
+                console.log(`✓ ${results.length} ModExp cases match the EIP-7883 gas model and modPow`);
+            }
+        );
 
-        console.log("\n✓ ModExp tests completed");
-    } catch (error: any) {
-        console.error(`✗ ModExp tests failed: ${error.message}`);
-        allPassed = false;
-    }
+        // Test 6: EIP-7823 input bounds at 1024 and 1025 bytes
+        await h.test(
+            { id: "modexp-bounds", title: "Test 6: ModExp Input Bounds (EIP-7823)", eips: [7823] },
+            async () => {
+                const modExp = await getModExpProbe();
+                const cases = modExpBoundsCases();
+                console.log(`\nProbing ${cases.length} length combinations at the ${MODEXP_MAX_INPUT_LENGTH}-byte bound...`);
+
+                let failures = 0;
+                const details: Record<string, Record<string, string>> = {};
+                for (const c of cases) {
+                    const { expectAccepted, outcomes } = await checkModExpBounds(h.provider, modExp, c);
+                    const failed = outcomes.filter((outcome) => outcome.problem !== null);
+                    const mark = failed.length === 0 ? "✓" : "✗";
+                    console.log(`${mark} ${c.label}: expected ${expectAccepted ? "success" : "failure"}`);
+                    for (const outcome of outcomes) {
+                        const line = `    ${outcome.method}: ${outcome.shape}${outcome.problem ? ` — ${outcome.problem}` : ""}`;
+                        (outcome.problem ? console.error : console.log)(line);
+                    }
+                    details[c.label] = Object.fromEntries(outcomes.map((outcome) => [outcome.method, outcome.shape]));
+                    failures += failed.length > 0 ? 1 : 0;
+                }
+
+                h.detail("outcomes", details);
+                if (failures > 0) {
+                    throw new Error(`${failures} of ${cases.length} ModExp bounds case(s) failed`);
+                }
+            }
+        );
 
-    // Summary
-    console.log("\n" + "=".repeat(50));
-    if (allPassed) {
-        console.log("✓ All Osaka features tested successfully on Etherlink!");
-        console.log("  - CLZ opcode: countLeadingZeros(), clzBatch(), clzWithValidation()");
-        console.log("  - secp256r1 precompile: verify(), verifyPacked(), verifyWithGasTracking()");
-        console.log("  - ModExp precompile: modExp(), modExpWithGasTracking(), probeBounds()");
-    } else {
-        console.error("✗ Some on-chain Osaka tests failed");
-        process.exit(1);
-    }
-}
+        // Test 7: CLZ over seeded random values against the local reference (opt-in)
+        await h.test({ id: "clz-fuzz", title: "Test 7: CLZ Fuzz (EIP-7939)", eips: [7939] }, async () => {
+            const args = parseArgs({
+                args: h.argv,
+                options: {
+                    "clz-fuzz": { type: "boolean", default: false },
+                    "clz-seed": { type: "string" },
+                    "clz-count": { type: "string" },
+                    "clz-chunk": { type: "string" },
+                },
+                strict: false,
+            });
+            if (args.values["clz-fuzz"] !== true) {
+                skip("CLZ fuzzing is opt-in; pass --clz-fuzz");
+            }
+            const positive = (name: string, fallback: number): number => {
+                const value = args.values[name];
+                if (typeof value !== "string") {
+                    return fallback;
+                }
+                const parsed = Number(value);
+                if (!Number.isSafeInteger(parsed) || parsed <= 0) {
+                    throw new Error(`--${name} must be a positive integer`);
+                }
+                return parsed;
+            };
+            const seedArg = args.values["clz-seed"];
+            const seed = typeof seedArg === "string" ? parseSeed(seedArg) : randomSeed();
+            const count = positive("clz-count", CLZ_FUZZ_COUNT);
+            const chunk = positive("clz-chunk", CLZ_FUZZ_CHUNK);
+            console.log(`\nSeed: ${ethers.toBeHex(seed)} (reproduce with --clz-seed ${ethers.toBeHex(seed)})`);
+            h.detail("seed", ethers.toBeHex(seed));
+
+            const clzDemo = await getClzDemo();
+            // True for each value whose on-chain CLZ differs from the reference
+            const mismatches = async (values: bigint[]): Promise<boolean[]> => {
+                const results: boolean[] = [];
+                for (let i = 0; i < values.length; i += chunk) {
+                    const batch = values.slice(i, i + chunk);
+                    const counts = await clzDemo.clzBatch(batch);
+                    results.push(...batch.map((value, j) => counts[j] !== BigInt(clz(value))));
+                }
+                return results;
+            };
+
+            const values = clzFuzzValues(createRng(seed), count);
+            const results = await mismatches(values);
+            const failing = values.filter((_, i) => results[i]);
+            console.log(`Checked ${values.length} values in ${Math.ceil(values.length / chunk)} clzBatch calls`);
+            if (failing.length === 0) {
+                console.log(`✓ CLZ matches the reference for all ${values.length} values`);
+                return;
+            }
 
-testOsakaOnchain().catch((error) => {
-    console.error("Fatal error:", error);
-    process.exit(1);
+            const shrunk = new Map<bigint, bigint>();
+            for (const value of failing.slice(0, CLZ_SHRINK_LIMIT)) {
+                const smallest = await shrinkBigInt(value, mismatches);
+                if (!shrunk.has(smallest)) {
+                    shrunk.set(smallest, value);
+                }
+            }
+            const failures: { input: string; actual: string; expected: number }[] = [];
+            for (const [smallest, original] of [...shrunk].sort(([a], [b]) => (a < b ? -1 : 1))) {
+                const [actual] = await clzDemo.clzBatch([smallest]);
+                console.error(
+                    `✗ CLZ(${ethers.toBeHex(smallest)}) = ${actual} (expected: ${clz(smallest)}), ` +
+                        `shrunk from ${ethers.toBeHex(original)}`
+                );
+                failures.push({ input: ethers.toBeHex(smallest), actual: actual.toString(), expected: clz(smallest) });
+            }
+            h.detail("failures", failures);
+            throw new Error(
+                `${failing.length} of ${values.length} values mismatched (seed ${ethers.toBeHex(seed)}), ` +
+                    `${shrunk.size} distinct after shrinking the first ${Math.min(failing.length, CLZ_SHRINK_LIMIT)}`
+            );
+        });
+    },
 });
+
+if (isEntryPoint(import.meta.url)) {
+    runMain(osakaOnchainSuite);
+}
@@ -1,49 +1,203 @@
 #!/usr/bin/env node
 /**
  * @file tx-gas-cap.ts
- * @notice Tests per-transaction gas limit cap (EIP-7825)
+ * @notice Tests per-transaction gas limit cap (EIP-7825) and default block gas limit (EIP-7935)
  * @dev EIP-7825 enforces a per-transaction gas limit cap of ~2^24 (16,777,216 gas).
- *      NOTE: EIP-7825 is NOT enabled on Etherlink and this test is skipped.
- *      Also note: EIP-7935 (60M default gas limit) is NOT enabled on Etherlink.
+ *      The probe sends eth_call and eth_estimateGas at the cap, one above it and well above it,
+ *      and classifies the node as enforcing the cap or not. The expected verdict comes from the
+ *      --network profile: "enabled" expects enforcement, "disabled" (or no profile, as on
+ *      Etherlink today) expects none.
+ *      EIP-7935 raises the default block gas limit to 60M; it is not enabled on Etherlink and
+ *      only runs when the --network profile marks it enabled.
  */
 
 import { ethers } from "ethers";
-import * as dotenv from "dotenv";
+import { validateEthConfig } from "./lib/eth-config.js";
+import { defineSuite, isEntryPoint, runMain, skip } from "./lib/harness.js";
+import type { NetworkProfile } from "./lib/networks.js";
+import { isMethodNotFound, rpcErrorOf } from "./lib/rpc.js";
 
-dotenv.config();
+/** EIP-7825 cap: 2^24 */
+const EIP_7825_CAP = 1n << 24n;
 
-async function testTxGasCap() {
-    const rpcUrl = process.env.ETH_RPC_URL;
+/** EIP-7935 default block gas limit */
+const DEFAULT_BLOCK_GAS_LIMIT = 60_000_000n;
 
-    if (!rpcUrl) {
-        console.error("ERROR: ETH_RPC_URL environment variable not set");
-        process.exit(1);
+/** Plain value-less call target; the probe only cares about the gas field */
+const PROBE_TARGET = "0x000000000000000000000000000000000000dEaD";
+
+type ProbeMethod = "eth_call" | "eth_estimateGas";
+
+type Verdict = "enforced" | "not enforced" | "inconsistent";
+
+interface ProbeOutcome {
+    gas: bigint;
+    accepted: boolean;
+    /** JSON-RPC error code and message when rejected */
+    code: number | null;
+    message: string | null;
+}
+
+/**
+ * @notice Read the cap from eth_config, falling back to the profile, then to 2^24
+ * @dev Only the legacy layout carries a transaction gas cap (`gas.maxTransactionGas`). Falls back
+ *      only when the node lacks eth_config; other RPC errors are rethrown. A response that fails
+ *      validation is reported and ignored. Throws if eth_config and the selected profile disagree.
+ */
+async function resolveTxGasCap(provider: ethers.JsonRpcProvider, network: NetworkProfile | null): Promise<bigint> {
+    let reported: bigint | null = null;
+    try {
+        const validation = validateEthConfig(await provider.send("eth_config", []));
+        if (!validation.ok) {
+            console.warn(`⚠ eth_config response is invalid (${validation.issues.length} issue(s)); ignoring it`);
+            for (const issue of validation.issues) {
+                console.warn(`  [${issue.kind}] ${issue.path}: ${issue.message}`);
+            }
+        } else if (validation.dialect === "legacy" && validation.config.gas?.maxTransactionGas) {
+            reported = BigInt(validation.config.gas.maxTransactionGas);
+        }
+    } catch (error) {
+        if (!isMethodNotFound(error)) {
+            throw error;
+        }
+        console.log("eth_config not available");
     }
 
-    console.log(`Connecting to RPC: ${rpcUrl}`);
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const expected = network?.limits.txGasCap ?? null;
+    if (reported !== null) {
+        console.log(`Transaction gas cap from eth_config: ${reported.toString()}`);
+        if (expected !== null && reported !== expected) {
+            throw new Error(`eth_config reports transaction gas cap ${reported}, ${network!.name} expects ${expected}`);
+        }
+        return reported;
+    }
+    if (expected !== null) {
+        console.log(`Using ${network!.name} transaction gas cap: ${expected.toString()}`);
+        return expected;
+    }
+    console.log(`Using EIP-7825 cap: ${EIP_7825_CAP.toString()} (2^24)`);
+    return EIP_7825_CAP;
+}
 
+async function probe(
+    provider: ethers.JsonRpcProvider,
+    method: ProbeMethod,
+    from: string,
+    gas: bigint
+): Promise<ProbeOutcome> {
+    const tx = { from, to: PROBE_TARGET, gas: ethers.toQuantity(gas) };
     try {
-        console.log("\n=== EIP-7825 Transaction Gas Limit Cap ===");
-        console.log("⚠ EIP-7825 is NOT enabled on Etherlink");
-        console.log("  Etherlink does not implement the per-transaction gas limit cap (~2^24 gas)");
-        console.log("  This test is skipped for Etherlink nodes");
-        console.log("\n=== EIP-7935 Default Gas Limit (60M) ===");
-        console.log("⚠ EIP-7935 is NOT enabled on Etherlink");
-        console.log("  Etherlink does not implement the 60M default gas limit per block");
-        console.log("  This test is skipped for Etherlink nodes");
-        console.log("\n✓ Gas cap tests skipped (EIP-7825 and EIP-7935 not applicable to Etherlink)");
+        await provider.send(method, method === "eth_call" ? [tx, "latest"] : [tx]);
+        return { gas, accepted: true, code: null, message: null };
     } catch (error: any) {
-        console.error("\nFatal error:", error.message);
-        process.exit(1);
+        const { code, message } = rpcErrorOf(error);
+        return { gas, accepted: false, code, message };
     }
 }
 
-testTxGasCap().catch((error) => {
-    console.error("Fatal error:", error);
-    process.exit(1);
-});
+/**
+ * @notice Classify one method's outcomes: the first outcome is at the cap, the rest above it
+ */
+function verdictOf(outcomes: ProbeOutcome[]): Verdict {
+    const [atCap, ...above] = outcomes;
+    if (!atCap.accepted) {
+        return "inconsistent";
+    }
+    if (above.every((outcome) => !outcome.accepted)) {
+        return "enforced";
+    }
+    if (above.every((outcome) => outcome.accepted)) {
+        return "not enforced";
+    }
+    return "inconsistent";
+}
 
+function describeOutcome(method: ProbeMethod, outcome: ProbeOutcome): string {
+    if (outcome.accepted) {
+        return `${method} gas=${outcome.gas}: accepted`;
+    }
+    return `${method} gas=${outcome.gas}: rejected (code ${outcome.code ?? "none"}: ${outcome.message})`;
+}
 
+export const txGasCapSuite = defineSuite({
+    id: "tx-gas-cap",
+    title: "Gas caps (EIP-7825 / EIP-7935)",
+    eips: [7825, 7935],
+    async run(h) {
+        await h.test({ id: "tx-gas-limit-cap", title: "EIP-7825 Transaction Gas Limit Cap", eips: [7825] }, async () => {
+            const provider = h.provider;
+            const expectEnforced = h.eipStatus(7825) === "enabled";
+            const source = h.network ? `${h.network.name} profile` : "Etherlink default";
+            console.log(`Expected: cap ${expectEnforced ? "enforced" : "not enforced"} (${source})`);
 
+            const cap = await resolveTxGasCap(provider, h.network);
+            const latest = await provider.getBlock("latest");
+            if (!latest) {
+                throw new Error("latest block not returned by the node");
+            }
+            if (latest.gasLimit <= cap) {
+                skip(`block gas limit ${latest.gasLimit} does not exceed the cap; transactions above it are rejected anyway`);
+            }
+            const wellAbove = cap * 2n < latest.gasLimit ? cap * 2n : latest.gasLimit;
+            const gasValues = [cap, cap + 1n, ...(wellAbove > cap + 1n ? [wellAbove] : [])];
 
+            const from = await h.wallet.getAddress();
+            const verdicts = new Map<ProbeMethod, Verdict>();
+            let oversize: ProbeOutcome | null = null;
+            for (const method of ["eth_call", "eth_estimateGas"] as const) {
+                const outcomes: ProbeOutcome[] = [];
+                for (const gas of gasValues) {
+                    const outcome = await probe(provider, method, from, gas);
+                    console.log(`  ${describeOutcome(method, outcome)}`);
+                    outcomes.push(outcome);
+                }
+                oversize ??= outcomes.find((outcome) => outcome.gas === cap + 1n && !outcome.accepted) ?? null;
+                const verdict = verdictOf(outcomes);
+                console.log(`  ${method}: ${verdict}`);
+                verdicts.set(method, verdict);
+            }
+
+            const callVerdict = verdicts.get("eth_call");
+            const estimateVerdict = verdicts.get("eth_estimateGas");
+            if (callVerdict === "inconsistent" || estimateVerdict === "inconsistent") {
+                throw new Error("the cap is applied inconsistently (rejected at the cap, or only some values above it)");
+            }
+            if (callVerdict !== estimateVerdict) {
+                throw new Error(`eth_call reports the cap ${callVerdict}, eth_estimateGas ${estimateVerdict}`);
+            }
+
+            const enforced = callVerdict === "enforced";
+            if (enforced && oversize) {
+                console.log(`Oversize gasLimit error: code ${oversize.code ?? "none"}, "${oversize.message}"`);
+                if (!/gas/i.test(oversize.message ?? "")) {
+                    throw new Error(`oversize gasLimit rejected with an error that does not mention gas: ${oversize.message}`);
+                }
+            }
+            if (enforced !== expectEnforced) {
+                throw new Error(
+                    `node ${enforced ? "enforces" : "does not enforce"} the ${cap} gas cap, ` +
+                        `expected ${expectEnforced ? "enforced" : "not enforced"} (${source})`
+                );
+            }
+            console.log(`✓ Transaction gas cap ${enforced ? "enforced" : "not enforced"} as expected`);
+        });
+
+        await h.test({ id: "default-gas-limit", title: "EIP-7935 Default Gas Limit (60M)", eips: [7935] }, async () => {
+            h.requireEnabled(7935);
+            const expected = h.network?.limits.blockGasLimit ?? DEFAULT_BLOCK_GAS_LIMIT;
+            const latest = await h.provider.getBlock("latest");
+            if (!latest) {
+                throw new Error("latest block not returned by the node");
+            }
+            console.log(`Block ${latest.number} gas limit: ${latest.gasLimit.toString()}`);
+            if (latest.gasLimit < expected) {
+                throw new Error(`block gas limit ${latest.gasLimit} is below the expected ${expected}`);
+            }
+            console.log(`✓ Block gas limit is at least ${expected.toString()}`);
+        });
+    },
+});
+
+if (isEntryPoint(import.meta.url)) {
+    runMain(txGasCapSuite);
+}
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+/**
+ * @file ws-client-check.ts
+ * @notice Offline check of the WebSocket subscription client against a local mock server
+ * @dev Needs no RPC endpoint. Covers subscription ID matching, notification routing, error
+ *      responses, malformed messages, reconnect with resubscribe and eth_unsubscribe on shutdown.
+ */
+
+import { defineSuite, isEntryPoint, runMain } from "./lib/harness.js";
+import { MockSubscriptionServer } from "./lib/mock-ws-server.js";
+import type { RpcReceipt } from "./lib/receipts.js";
+import { SubscriptionClient, type IncludedTransaction } from "./lib/ws-subscriptions.js";
+
+const INCLUDED = "tez_newIncludedTransactions";
+const PRECONFIRMED = "tez_newPreconfirmedReceipts";
+
+const included = (n: number): IncludedTransaction => ({
+    hash: `0x${n.toString(16).padStart(64, "0")}`,
+    from: "0x000000000000000000000000000000000000dEaD",
+    to: null,
+    nonce: `0x${n.toString(16)}`,
+});
+
+const preconfirmed = (n: number) => ({ transactionHash: included(n).hash }) as RpcReceipt;
+
+async function waitUntil(condition: () => boolean, what: string, timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`timed out after ${timeoutMs} ms waiting for ${what}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
+
+function expectEqual(actual: unknown, expected: unknown, what: string): void {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        throw new Error(`${what}: got ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`);
+    }
+    console.log(`✓ ${what}: ${JSON.stringify(actual)}`);
+}
+
+export const wsClientSuite = defineSuite({
+    id: "ws-client",
+    title: "WebSocket subscription client (mock server)",
+    eips: [],
+    async run(h) {
+        const server = await MockSubscriptionServer.start([INCLUDED, PRECONFIRMED]);
+        const client = await SubscriptionClient.connect(server.url, { reconnectDelayMs: 20, requestTimeoutMs: 2000 });
+        console.log(`Mock server: ${server.url}`);
+
+        try {
+            const includedSub = await client.subscribe(INCLUDED);
+            const preconfirmedSub = await client.subscribe(PRECONFIRMED);
+            const seenIncluded: string[] = [];
+            const seenPreconfirmed: string[] = [];
+            includedSub.on((tx) => seenIncluded.push(tx.hash));
+            preconfirmedSub.on((receipt) => seenPreconfirmed.push(receipt.transactionHash));
+
+            await h.test({ id: "subscribe", title: "Subscription IDs match their requests" }, async () => {
+                const subscribes = server.requests.filter((request) => request.method === "eth_subscribe");
+                expectEqual(
+                    subscribes.map((request) => request.params[0]),
+                    [INCLUDED, PRECONFIRMED],
+                    "eth_subscribe topics"
+                );
+                if (!includedSub.id || !preconfirmedSub.id || includedSub.id === preconfirmedSub.id) {
+                    throw new Error(`expected two distinct IDs, got ${includedSub.id} and ${preconfirmedSub.id}`);
+                }
+                console.log(`✓ IDs: ${INCLUDED} ${includedSub.id}, ${PRECONFIRMED} ${preconfirmedSub.id}`);
+            });
+
+            await h.test({ id: "routing", title: "Notifications reach their own stream only" }, async () => {
+                const iterator = includedSub[Symbol.asyncIterator]();
+                server.publish(INCLUDED, included(1));
+                server.publish(PRECONFIRMED, preconfirmed(2));
+                server.publish(INCLUDED, included(3));
+                await waitUntil(() => seenIncluded.length === 2 && seenPreconfirmed.length === 1, "3 notifications");
+                expectEqual(seenIncluded, [included(1).hash, included(3).hash], `${INCLUDED} events`);
+                expectEqual(seenPreconfirmed, [preconfirmed(2).transactionHash], `${PRECONFIRMED} events`);
+                const first = await iterator.next();
+                const second = await iterator.next();
+                expectEqual([first.value?.nonce, second.value?.nonce], ["0x1", "0x3"], "for await order");
+                await iterator.return?.();
+            });
+
+            await h.test({ id: "subscribe-error", title: "eth_subscribe errors reject" }, async () => {
+                const error = await client.subscribe("newHeads").then(
+                    () => null,
+                    (caught: Error) => caught
+                );
+                if (!error || !/unsupported subscription type/.test(error.message)) {
+                    throw new Error(`expected the server's error, got ${error ? error.message : "a subscription"}`);
+                }
+                console.log(`✓ Rejected: ${error.message}`);
+            });
+
+            await h.test({ id: "malformed", title: "Malformed and stray messages are counted" }, async () => {
+                server.sendRaw("{not json");
+                // A notification for a subscription ID the client never had
+                const params = { subscription: "0xdead", result: {} };
+                server.sendRaw(JSON.stringify({ jsonrpc: "2.0", method: "eth_subscription", params }));
+                server.publish(INCLUDED, included(4));
+                await waitUntil(() => seenIncluded.length === 3, "the notification after the bad messages");
+                expectEqual([client.stats.parseErrors, client.stats.unrouted], [1, 1], "parse errors, unrouted");
+            });
+
+            await h.test({ id: "reconnect", title: "Reconnect and resubscribe after a drop" }, async () => {
+                const before = [includedSub.id, preconfirmedSub.id];
+                server.dropConnections();
+                const resubscribed = () => includedSub.id !== null && preconfirmedSub.id !== null;
+                await waitUntil(() => client.stats.reconnects === 1 && resubscribed(), "reconnect");
+                const after = [includedSub.id, preconfirmedSub.id];
+                if (after.some((id) => before.includes(id))) {
+                    throw new Error(`subscription IDs not renewed: ${before.join(", ")} -> ${after.join(", ")}`);
+                }
+                console.log(`✓ Resubscribed: ${before.join(", ")} -> ${after.join(", ")}`);
+                server.publish(INCLUDED, included(5));
+                server.publish(PRECONFIRMED, preconfirmed(6));
+                const delivered = () => seenIncluded.length === 4 && seenPreconfirmed.length === 2;
+                await waitUntil(delivered, "events after reconnect");
+                expectEqual(server.activeSubscriptions, 2, "server-side subscriptions");
+            });
+
+            await h.test({ id: "shutdown", title: "close() unsubscribes before closing" }, async () => {
+                const ids = [includedSub.id, preconfirmedSub.id];
+                await client.close();
+                const unsubscribed = server.requests
+                    .filter((request) => request.method === "eth_unsubscribe")
+                    .map((request) => request.params[0]);
+                expectEqual(unsubscribed.sort(), ids.sort(), "eth_unsubscribe IDs");
+                expectEqual(server.activeSubscriptions, 0, "server-side subscriptions");
+                expectEqual([includedSub.active, preconfirmedSub.active], [false, false], "streams active");
+            });
+        } finally {
+            await client.close();
+            await server.close();
+        }
+    },
+});
+
+if (isEntryPoint(import.meta.url)) {
+    runMain(wsClientSuite);
+}